@@ -3,64 +3,359 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import {Video} from '@google/genai';
-import React, {useCallback, useEffect, useState} from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import ApiKeyDialog from './components/ApiKeyDialog';
+import CandidateComparison from './components/CandidateComparison';
+import ClipAssembler from './components/ClipAssembler';
+import HistoryGallery from './components/HistoryGallery';
+import JobQueuePanel from './components/JobQueuePanel';
 import LoadingIndicator from './components/LoadingIndicator';
 import PromptForm from './components/PromptForm';
 import StartupAnimation from './components/StartupAnimation';
+import StoryboardEditor from './components/StoryboardEditor';
+import SweepPanel from './components/SweepPanel';
+import TemplateLibrary from './components/TemplateLibrary';
+import UsageDashboard from './components/UsageDashboard';
 import VideoResult from './components/VideoResult';
-import {generateVideo} from './services/geminiService';
+import {
+  ApiKeySource,
+  clearApiKey,
+  getApiKeySource,
+  setApiKey,
+} from './services/apiKeyStore';
+import {canExtendResult, coerceToCapabilities} from './services/capabilities';
+import {
+  VideoErrorKind,
+  VideoGenerationError,
+  classifyError,
+} from './services/errors';
+import {formatFilename} from './services/fileNaming';
+import {routeFrameToParams} from './services/frameExtraction';
+import {
+  GenerateVideoOptions,
+  generateVideo,
+  resumeVideoOperation,
+  validateApiKey,
+} from './services/geminiService';
+import {
+  estimateJobDuration,
+  recordJobDuration,
+} from './services/durationStats';
+import {
+  deleteHistoryEntry,
+  importHistoryEntries,
+  listHistoryEntries,
+  saveHistoryEntry,
+} from './services/historyService';
+import {createJobQueue, isJobActive} from './services/jobQueue';
+import {
+  deletePendingOperation,
+  listPendingOperations,
+  savePendingOperation,
+} from './services/pendingOperations';
+import {
+  PROJECT_EXTENSION,
+  buildProjectFile,
+  parseProjectFile,
+} from './services/projectFile';
+import {getVideoProvider} from './services/providers';
+import {rerollSeed} from './services/seed';
+import {
+  buildShotParams,
+  createStoryboard,
+  getTimelineShots,
+} from './services/storyboard';
+import {expandSweep} from './services/sweep';
+import {
+  hasUrlSettings,
+  pushUrlState,
+  readUrlState,
+  replaceUrlState,
+} from './services/urlState';
+import {
+  AssemblyClip,
+  fileExtensionForMimeType,
+} from './services/videoAssembly';
 import {
   AppState,
   AspectRatio,
+  FrameSlot,
   GenerateVideoParams,
+  GenerateVideoResult,
+  GeneratedVideo,
+  GenerationJob,
   GenerationMode,
+  GenerationProgress,
+  HistoryEntry,
+  ImageFile,
   Resolution,
+  StoryboardShot,
+  Sweep,
+  SweepSpec,
   VeoModel,
+  VideoEdit,
   VideoFile,
 } from './types';
 
-const examplePrompts: Array<
-  Partial<GenerateVideoParams> & {title: string; prompt: string}
-> = [
-  {
-    title: 'Cinematic Drone Shot',
-    prompt:
-      'A cinematic drone shot of a car driving on a winding road through a forest in autumn.',
-    mode: GenerationMode.TEXT_TO_VIDEO,
+type ErrorAction =
+  | 'edit-prompt'
+  | 'switch-model'
+  | 'retry'
+  | 'wait-retry'
+  | 'update-key'
+  | 'open-usage';
+
+const errorGuidance: Record<
+  VideoErrorKind,
+  {title: string; hint: string; actions: ErrorAction[]}
+> = {
+  [VideoErrorKind.AUTH]: {
+    title: 'Access Denied',
+    hint: 'The API key was rejected. Check that it is valid and has Veo access on a billed project.',
+    actions: ['update-key', 'retry'],
+  },
+  [VideoErrorKind.QUOTA]: {
+    title: 'Rate Limited',
+    hint: 'You have hit a quota or rate limit. Wait a minute before trying again.',
+    actions: ['wait-retry', 'switch-model'],
+  },
+  [VideoErrorKind.CONTENT_POLICY]: {
+    title: 'Blocked By Safety Filter',
+    hint: 'The prompt or input media was flagged. Rephrase the prompt or use different images.',
+    actions: ['edit-prompt'],
   },
-  {
-    title: 'Surreal Animation',
-    prompt:
-      'A surreal animation of a giant jellyfish floating through the clouds at sunset.',
-    mode: GenerationMode.TEXT_TO_VIDEO,
+  [VideoErrorKind.INVALID_INPUT]: {
+    title: 'Invalid Request',
+    hint: 'Some settings or inputs are not accepted for this mode. Review them and submit again.',
+    actions: ['edit-prompt', 'switch-model'],
   },
-  {
-    title: 'Time-lapse City',
-    prompt: 'A time-lapse of a futuristic city with flying vehicles and neon lights.',
-    mode: GenerationMode.TEXT_TO_VIDEO,
+  [VideoErrorKind.OPERATION_FAILED]: {
+    title: 'Render Failed',
+    hint: 'The server could not finish this render. Retrying or switching model often helps.',
+    actions: ['retry', 'switch-model', 'edit-prompt'],
   },
-  {
-    title: 'Underwater World',
-    prompt:
-      'A beautiful underwater shot of a coral reef with colorful fish and a sea turtle.',
-    mode: GenerationMode.TEXT_TO_VIDEO,
+  [VideoErrorKind.DOWNLOAD_FAILED]: {
+    title: 'Download Failed',
+    hint: 'The video was rendered but could not be downloaded. Retry to render it again.',
+    actions: ['retry', 'edit-prompt'],
   },
-];
+  [VideoErrorKind.NETWORK]: {
+    title: 'Connection Problem',
+    hint: 'The video service could not be reached. Check your connection and retry.',
+    actions: ['wait-retry', 'edit-prompt'],
+  },
+  [VideoErrorKind.BUDGET]: {
+    title: 'Budget Reached',
+    hint: 'This render would pass your monthly hard limit. Raise the limit or pick a cheaper model.',
+    actions: ['open-usage', 'switch-model', 'edit-prompt'],
+  },
+  [VideoErrorKind.UNKNOWN]: {
+    title: 'Unexpected Error',
+    hint: 'Something went wrong in the app itself. Retrying may not help; reload the page if it keeps happening.',
+    actions: ['retry', 'edit-prompt'],
+  },
+};
+
+const RETRY_WAIT_SECONDS = 30;
+
+const WaitAndRetryButton: React.FC<{onRetry: () => void}> = ({onRetry}) => {
+  const [secondsLeft, setSecondsLeft] = useState(RETRY_WAIT_SECONDS);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+    const timer = setTimeout(() => setSecondsLeft((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  return (
+    <button onClick={onRetry} disabled={secondsLeft > 0}>
+      {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry'}
+    </button>
+  );
+};
+
+const saveUrl = (url: string, filename: string) => {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
+const downloadVideo = (
+  url: string,
+  config: GenerateVideoParams | null,
+  mimeType = 'video/mp4',
+) => {
+  saveUrl(url, formatFilename(config, fileExtensionForMimeType(mimeType)));
+};
+
+const withFormDefaults = (
+  values: Partial<GenerateVideoParams>,
+): GenerateVideoParams => ({
+  prompt: '',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+  musicPrompt: '',
+  ...values,
+});
+
+// Archives every candidate of a render; one history entry per video.
+const saveCandidatesToHistory = (
+  params: GenerateVideoParams,
+  result: GenerateVideoResult,
+): Promise<HistoryEntry[]> =>
+  Promise.all(
+    result.candidates.map(({blob, uri, video}) =>
+      saveHistoryEntry({params, blob, uri, video}),
+    ),
+  );
+
+// Keeps the operation name in IndexedDB while a render is in flight so it can
+// be resumed after a reload. Pass `resumeOperationName` to reattach to one.
+const runTrackedGeneration = async (
+  params: GenerateVideoParams,
+  options: GenerateVideoOptions,
+  resumeOperationName?: string,
+): Promise<GenerateVideoResult> => {
+  let operationName = resumeOperationName ?? null;
+  try {
+    if (resumeOperationName) {
+      return await resumeVideoOperation(resumeOperationName, options, params);
+    }
+    const startedAt = Date.now();
+    const result = await generateVideo(params, {
+      ...options,
+      onOperationStarted: (name) => {
+        operationName = name;
+        savePendingOperation(name, params).catch((error) => {
+          console.error('Failed to persist pending operation:', error);
+        });
+      },
+    });
+    recordJobDuration(params.model, params.resolution, Date.now() - startedAt);
+    return result;
+  } finally {
+    if (operationName) {
+      deletePendingOperation(operationName).catch((error) => {
+        console.error('Failed to clear pending operation:', error);
+      });
+    }
+  }
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [generationError, setGenerationError] =
+    useState<VideoGenerationError | null>(null);
   const [lastConfig, setLastConfig] = useState<GenerateVideoParams | null>(
     null,
   );
   const [lastVideoObject, setLastVideoObject] = useState<Video | null>(null);
   const [lastVideoBlob, setLastVideoBlob] = useState<Blob | null>(null);
+  // Set while several candidates of one render await a pick.
+  const [candidates, setCandidates] = useState<GeneratedVideo[]>([]);
+  // The same candidates with their history entries, so every way out of the
+  // comparison can discard the ones not picked.
+  const pendingPickRef = useRef<{
+    candidates: GeneratedVideo[];
+    entries: Promise<HistoryEntry[]>;
+  } | null>(null);
   const [isStartingUp, setIsStartingUp] = useState(true);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [assemblyClips, setAssemblyClips] = useState<AssemblyClip[]>([]);
+  const [sweep, setSweep] = useState<Sweep | null>(null);
+  const [apiKeySource, setApiKeySource] = useState<ApiKeySource | null>(
+    getApiKeySource,
+  );
+  const [apiKeyDialogReason, setApiKeyDialogReason] = useState<
+    string | null
+  >(null);
+  const [isApiKeyDialogOpen, setIsApiKeyDialogOpen] = useState(
+    () => getVideoProvider().requiresApiKey && getApiKeySource() === null,
+  );
+
+  // Any render rejected for its key asks for a new one, whether it came from
+  // the form, the queue (and so a sweep) or the storyboard.
+  const promptForKeyOnAuthError = useCallback((error: unknown) => {
+    if (
+      classifyError(error).kind === VideoErrorKind.AUTH &&
+      getVideoProvider().requiresApiKey
+    ) {
+      setApiKeyDialogReason(
+        'The current API key was rejected. Enter a valid key with Veo access to continue.',
+      );
+      setIsApiKeyDialogOpen(true);
+    }
+  }, []);
 
-  // A single state to hold the initial values for the prompt form
+  const [jobQueue] = useState(() =>
+    createJobQueue(
+      (job, {onProgress, signal}) =>
+        runTrackedGeneration(
+          job.params,
+          {onProgress, signal},
+          job.operationName,
+        ),
+      {
+        onJobSettled: (job) => {
+          if (job.result) {
+            saveCandidatesToHistory(job.params, job.result).catch((error) => {
+              console.error('Failed to save queued job to history:', error);
+            });
+          }
+        },
+        onJobFailed: (_job, error) => promptForKeyOnAuthError(error),
+      },
+    ),
+  );
+  const jobs = useSyncExternalStore(jobQueue.subscribe, jobQueue.getJobs);
+  const [storyboardController] = useState(() =>
+    createStoryboard((params, context) => runTrackedGeneration(params, context), {
+      onShotSettled: (shot, params) => {
+        if (shot.result) {
+          const {blob, uri, video} = shot.result;
+          saveHistoryEntry({params, blob, uri, video}).catch((error) => {
+            console.error('Failed to save storyboard shot to history:', error);
+          });
+        }
+      },
+      onShotFailed: (_shot, error) => promptForKeyOnAuthError(error),
+    }),
+  );
+  const storyboard = useSyncExternalStore(
+    storyboardController.subscribe,
+    storyboardController.getStoryboard,
+  );
+  const [queueConcurrency, setQueueConcurrency] = useState(
+    jobQueue.getConcurrency(),
+  );
+  const [generationProgress, setGenerationProgress] =
+    useState<GenerationProgress | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const hasResumedRef = useRef(false);
+
+  // A single state to hold the initial values for the prompt form. A link
+  // with settings in its query string pre-fills it.
   const [initialFormValues, setInitialFormValues] =
-    useState<GenerateVideoParams | null>(null);
+    useState<GenerateVideoParams | null>(() => {
+      const urlState = readUrlState();
+      return hasUrlSettings(urlState)
+        ? withFormDefaults(urlState.settings)
+        : null;
+    });
 
   useEffect(() => {
     const startupTimer = setTimeout(() => {
@@ -69,44 +364,189 @@ const App: React.FC = () => {
     return () => clearTimeout(startupTimer);
   }, []);
 
+  // A reload cannot restore a result, so start on the form either way.
+  useEffect(() => {
+    const {settings, view} = readUrlState();
+    if (view === 'result') replaceUrlState(settings, 'form');
+  }, []);
+
+  // Finished renders get their own browser history entry; leaving the result
+  // for the form adds another, so back and forward move between the two.
+  useEffect(() => {
+    const {view} = readUrlState();
+    if (appState === AppState.SUCCESS && view !== 'result' && lastConfig) {
+      pushUrlState(lastConfig, 'result');
+    } else if (appState === AppState.IDLE && view === 'result') {
+      pushUrlState(initialFormValues ?? {}, 'form');
+    }
+  }, [appState, lastConfig, initialFormValues]);
+
+  // Each result gets its own object URL; free it once it is replaced.
+  useEffect(
+    () => () => {
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+    },
+    [videoUrl],
+  );
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const {settings, view} = readUrlState();
+      if (view === 'result' && videoUrl) {
+        setAppState(AppState.SUCCESS);
+        return;
+      }
+      // Media inputs are not in the URL; keep the ones still in memory.
+      setInitialFormValues(withFormDefaults({...lastConfig, ...settings}));
+      setErrorMessage(null);
+      setAppState(AppState.IDLE);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [videoUrl, lastConfig]);
+
+  // The form reports its values before the effect above has pushed the form
+  // entry, so it must not overwrite a result entry.
+  const handleFormChange = useCallback((params: GenerateVideoParams) => {
+    if (readUrlState().view === 'form') {
+      replaceUrlState(params, 'form');
+    }
+  }, []);
+
+  // Renders still in flight when the page was closed continue in the queue.
+  useEffect(() => {
+    if (hasResumedRef.current) return;
+    hasResumedRef.current = true;
+    listPendingOperations()
+      .then((operations) => {
+        for (const operation of operations) {
+          jobQueue.submit(operation.params, operation.operationName);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load pending operations:', error);
+      });
+  }, [jobQueue]);
+
+  // Revokes the candidates not kept and deletes their history entries.
+  // Without `keepIndex` the whole comparison is dropped.
+  const discardCandidates = useCallback((keepIndex?: number) => {
+    const pending = pendingPickRef.current;
+    pendingPickRef.current = null;
+    setCandidates([]);
+    if (!pending) return;
+    pending.candidates.forEach((candidate, i) => {
+      if (i !== keepIndex) URL.revokeObjectURL(candidate.objectUrl);
+    });
+    if (keepIndex === undefined) {
+      setVideoUrl(null);
+    }
+    pending.entries
+      .then((entries) =>
+        Promise.all(
+          entries
+            .filter((_, i) => i !== keepIndex)
+            .map((entry) => deleteHistoryEntry(entry.id)),
+        ),
+      )
+      .catch((error) => {
+        console.error('Failed to discard candidates:', error);
+      });
+  }, []);
+
   const handleGenerate = useCallback(
     async (params: GenerateVideoParams) => {
       setAppState(AppState.LOADING);
       setErrorMessage(null);
+      setGenerationError(null);
       setLastConfig(params);
+      setGenerationProgress(null);
+      discardCandidates();
       // Reset initial form values for the next fresh start
       setInitialFormValues(null);
 
+      const controller = new AbortController();
+      generationControllerRef.current = controller;
+
       try {
-        const {objectUrl, blob, video} = await generateVideo(params);
-        setVideoUrl(objectUrl);
-        setLastVideoBlob(blob);
-        setLastVideoObject(video);
+        const result = await runTrackedGeneration(params, {
+          signal: controller.signal,
+          onProgress: setGenerationProgress,
+        });
+        setVideoUrl(result.objectUrl);
+        setLastVideoBlob(result.blob);
+        setLastVideoObject(result.video);
+        setCandidates(result.candidates.length > 1 ? result.candidates : []);
         setAppState(AppState.SUCCESS);
+        // Archive the render; a storage failure must not hide the result.
+        const saved = saveCandidatesToHistory(params, result);
+        if (result.candidates.length > 1) {
+          pendingPickRef.current = {candidates: result.candidates, entries: saved};
+        }
+        saved.catch((error) => {
+          console.error('Failed to save generation to history:', error);
+        });
       } catch (error) {
+        if (controller.signal.aborted) {
+          // Cancelled by the user: return to the form with the same settings.
+          setInitialFormValues(params);
+          setAppState(AppState.IDLE);
+          return;
+        }
         console.error('Video generation failed:', error);
-        // Per user request, show a generic, secure error message for all failures.
-        setErrorMessage('Video generation failed. Please try again.');
+        const classified = classifyError(error);
+        promptForKeyOnAuthError(classified);
+        setGenerationError(classified);
+        setErrorMessage(classified.message);
         setAppState(AppState.ERROR);
+      } finally {
+        if (generationControllerRef.current === controller) {
+          generationControllerRef.current = null;
+        }
       }
     },
-    [],
+    [discardCandidates, promptForKeyOnAuthError],
   );
 
+  const handleCancelGeneration = useCallback(() => {
+    generationControllerRef.current?.abort();
+  }, []);
+
+  // Reuses the seed only when it was locked; otherwise retry varies the result.
   const handleRetry = useCallback(() => {
     if (lastConfig) {
-      handleGenerate(lastConfig);
+      handleGenerate(rerollSeed(lastConfig));
     }
   }, [lastConfig, handleGenerate]);
 
+  const handlePickCandidate = useCallback(
+    (index: number) => {
+      const picked = candidates[index];
+      if (!picked) return;
+      setVideoUrl(picked.objectUrl);
+      setLastVideoBlob(picked.blob);
+      setLastVideoObject(picked.video);
+      // The others were archived with the render; drop them now.
+      discardCandidates(index);
+    },
+    [candidates, discardCandidates],
+  );
+
   const handleNewVideo = useCallback(() => {
     setAppState(AppState.IDLE);
+    discardCandidates();
     setVideoUrl(null);
     setErrorMessage(null);
+    setGenerationError(null);
     setLastConfig(null);
     setLastVideoObject(null);
     setLastVideoBlob(null);
     setInitialFormValues(null); // Clear the form state
+  }, [discardCandidates]);
+
+  const handleBackToIdle = useCallback(() => {
+    setErrorMessage(null);
+    setAppState(AppState.IDLE);
   }, []);
 
   const handleTryAgainFromError = useCallback(() => {
@@ -128,23 +568,24 @@ const App: React.FC = () => {
         });
         const videoFile: VideoFile = {file, base64: ''};
 
-        setInitialFormValues({
-          ...lastConfig, // Carry over model, aspect ratio
-          mode: GenerationMode.EXTEND_VIDEO,
-          prompt: '', // Start with a blank prompt
-          inputVideo: videoFile, // for preview in the form
-          inputVideoObject: lastVideoObject, // for the API call
-          resolution: Resolution.P720, // Extend requires 720p
-          model: VeoModel.VEO, // Extend requires VEO model
-          // Reset other media types
-          inputImage: null,
-          startFrame: null,
-          endFrame: null,
-          referenceImages: [],
-          styleImage: null,
-          isLooping: false,
-          musicPrompt: '',
-        });
+        // Model and resolution are moved to what Extend supports.
+        setInitialFormValues(
+          coerceToCapabilities({
+            ...lastConfig, // Carry over model, aspect ratio
+            mode: GenerationMode.EXTEND_VIDEO,
+            prompt: '', // Start with a blank prompt
+            inputVideo: videoFile, // for preview in the form
+            inputVideoObject: lastVideoObject, // for the API call
+            // Reset other media types
+            inputImage: null,
+            startFrame: null,
+            endFrame: null,
+            referenceImages: [],
+            styleImage: null,
+            isLooping: false,
+            musicPrompt: '',
+          }),
+        );
 
         setAppState(AppState.IDLE);
         setVideoUrl(null);
@@ -159,43 +600,354 @@ const App: React.FC = () => {
     }
   }, [lastConfig, lastVideoBlob, lastVideoObject]);
 
-  const handleSelectExample = (example: Partial<GenerateVideoParams>) => {
-    setInitialFormValues({
-      // Set defaults for any missing properties
-      prompt: '',
-      model: VeoModel.VEO_FAST,
-      aspectRatio: AspectRatio.LANDSCAPE,
-      resolution: Resolution.P720,
-      mode: GenerationMode.TEXT_TO_VIDEO,
-      musicPrompt: '',
-      ...example,
-    });
+  const handleApplyTemplate = (values: Partial<GenerateVideoParams>) => {
+    setInitialFormValues(withFormDefaults(values));
   };
 
+  // Opens the form in the slot's mode with the frame filled in, keeping the
+  // current model and format.
+  const handleUseFrame = useCallback(
+    (slot: FrameSlot, frame: ImageFile) => {
+      const base = withFormDefaults(
+        lastConfig
+          ? {
+              model: lastConfig.model,
+              aspectRatio: lastConfig.aspectRatio,
+              resolution: lastConfig.resolution,
+            }
+          : {},
+      );
+      setInitialFormValues(routeFrameToParams(base, slot, frame));
+      setErrorMessage(null);
+      setAppState(AppState.IDLE);
+    },
+    [lastConfig],
+  );
+
   const handleDownload = useCallback(() => {
     if (videoUrl && lastVideoBlob) {
-      const a = document.createElement('a');
-a.href = videoUrl;
-      const safePrompt =
-        lastConfig?.prompt
-          ?.toLowerCase()
-          .replace(/[^a-z0-9]/g, '-')
-          .substring(0, 30) || 'video';
-      a.download = `charchiru-${safePrompt}.mp4`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      downloadVideo(videoUrl, lastConfig, lastVideoBlob.type);
     }
   }, [videoUrl, lastVideoBlob, lastConfig]);
 
-  const renderError = (message: string) => (
-    <div className="error-container">
-      <h2>[ System Error ]</h2>
-      <p>{message}</p>
-      <button onClick={handleTryAgainFromError}>Try Again</button>
-    </div>
+  const refreshHistory = useCallback(async () => {
+    setIsHistoryLoading(true);
+    try {
+      setHistoryEntries(await listHistoryEntries());
+    } catch (error) {
+      console.error('Failed to load history:', error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, []);
+
+  const handleOpenHistory = useCallback(() => {
+    setAppState(AppState.HISTORY);
+    refreshHistory();
+  }, [refreshHistory]);
+
+  const showStoredResult = useCallback(
+    (params: GenerateVideoParams, blob: Blob, video: Video) => {
+      discardCandidates();
+      setVideoUrl(URL.createObjectURL(blob));
+      setLastVideoBlob(blob);
+      setLastVideoObject(video);
+      setLastConfig(params);
+      setErrorMessage(null);
+      setAppState(AppState.SUCCESS);
+    },
+    [discardCandidates],
+  );
+
+  // Edited copies are shown right away and archived next to the source
+  // render. They exist only locally, so they keep no remote video to extend.
+  const handleSaveEdit = useCallback(
+    (blob: Blob, edit: VideoEdit) => {
+      if (!lastConfig) return;
+      const derivedFrom = {sourceUri: lastVideoObject?.uri ?? '', edit};
+      showStoredResult(lastConfig, blob, {});
+      saveHistoryEntry({
+        params: lastConfig,
+        blob,
+        uri: '',
+        video: {},
+        derivedFrom,
+      }).catch((error) => {
+        console.error('Failed to save edited video to history:', error);
+      });
+    },
+    [lastConfig, lastVideoObject, showStoredResult],
+  );
+
+  const handlePlayHistoryEntry = useCallback(
+    (entry: HistoryEntry) =>
+      showStoredResult(entry.params, entry.blob, entry.video),
+    [showStoredResult],
+  );
+
+  const handleDownloadHistoryEntry = useCallback((entry: HistoryEntry) => {
+    const url = URL.createObjectURL(entry.blob);
+    downloadVideo(url, entry.params, entry.blob.type);
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const handleDeleteHistoryEntry = useCallback(
+    async (entry: HistoryEntry) => {
+      try {
+        await deleteHistoryEntry(entry.id);
+      } catch (error) {
+        console.error('Failed to delete history entry:', error);
+      }
+      refreshHistory();
+    },
+    [refreshHistory],
+  );
+
+  const handleLoadHistorySettings = useCallback((entry: HistoryEntry) => {
+    setInitialFormValues({...entry.params});
+    setErrorMessage(null);
+    setAppState(AppState.IDLE);
+  }, []);
+
+  const handleExportProject = useCallback(
+    async (entries: HistoryEntry[]) => {
+      const file = await buildProjectFile(entries, lastConfig);
+      const url = URL.createObjectURL(file);
+      const date = new Date().toISOString().slice(0, 10);
+      saveUrl(url, `charchiru-project-${date}${PROJECT_EXTENSION}`);
+      URL.revokeObjectURL(url);
+    },
+    [lastConfig],
+  );
+
+  // Imported videos join the history; the project's settings fill the form.
+  const handleImportProject = useCallback(
+    async (file: File) => {
+      const project = await parseProjectFile(file);
+      await importHistoryEntries(project.entries);
+      const settings = project.settings ?? project.entries.at(-1)?.params;
+      if (settings) {
+        setInitialFormValues({...settings});
+      }
+      refreshHistory();
+      return project.entries.length;
+    },
+    [refreshHistory],
+  );
+
+  const handleQueue = useCallback(
+    (params: GenerateVideoParams) => {
+      jobQueue.submit(params);
+    },
+    [jobQueue],
+  );
+
+  const handleStartSweep = useCallback(
+    (spec: SweepSpec) => {
+      const {cells, columns} = expandSweep(spec);
+      setSweep({
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        columns,
+        cells: cells.map((cell) => ({
+          ...cell,
+          jobId: jobQueue.submit(cell.params).id,
+        })),
+      });
+    },
+    [jobQueue],
+  );
+
+  const handleConcurrencyChange = useCallback(
+    (concurrency: number) => {
+      jobQueue.setConcurrency(concurrency);
+      setQueueConcurrency(jobQueue.getConcurrency());
+    },
+    [jobQueue],
+  );
+
+  const handlePlayJob = useCallback(
+    (job: GenerationJob) => {
+      if (job.result) {
+        showStoredResult(job.params, job.result.blob, job.result.video);
+      }
+    },
+    [showStoredResult],
+  );
+
+  const handleDownloadJob = useCallback((job: GenerationJob) => {
+    if (job.result) {
+      downloadVideo(job.result.objectUrl, job.params, job.result.blob.type);
+    }
+  }, []);
+
+  const handleOpenApiKeyDialog = useCallback(() => {
+    setApiKeyDialogReason(null);
+    setIsApiKeyDialogOpen(true);
+  }, []);
+
+  const handleSaveApiKey = useCallback(
+    async (apiKey: string, persist: boolean) => {
+      try {
+        await validateApiKey(apiKey);
+      } catch (error) {
+        const classified = classifyError(error);
+        throw new Error(
+          classified.kind === VideoErrorKind.AUTH
+            ? 'That key was rejected. Check it and try again.'
+            : `The key could not be verified: ${classified.message}`,
+        );
+      }
+      setApiKey(apiKey, persist);
+      setApiKeySource(getApiKeySource());
+      setIsApiKeyDialogOpen(false);
+    },
+    [],
   );
 
+  const handleClearApiKey = useCallback(() => {
+    clearApiKey();
+    const source = getApiKeySource();
+    setApiKeySource(source);
+    setApiKeyDialogReason(null);
+    setIsApiKeyDialogOpen(source === null);
+  }, []);
+
+  const handleOpenStoryboardShot = useCallback(
+    (shot: StoryboardShot, index: number) => {
+      if (shot.result) {
+        showStoredResult(
+          buildShotParams(storyboard.shots, index, storyboard.aspectRatio),
+          shot.result.blob,
+          shot.result.video,
+        );
+      }
+    },
+    [storyboard, showStoredResult],
+  );
+
+  const handleOpenAssembler = useCallback(
+    (clips: AssemblyClip[] = []) => {
+      setAssemblyClips(clips);
+      setAppState(AppState.ASSEMBLY);
+      refreshHistory();
+    },
+    [refreshHistory],
+  );
+
+  const handleAssembleStoryboard = useCallback(() => {
+    handleOpenAssembler(
+      getTimelineShots(storyboard.shots).map((shot, index) => ({
+        id: shot.id,
+        label: `Take ${index + 1}: ${shot.prompt}`,
+        blob: (shot.result as GenerateVideoResult).blob,
+        trimStart: 0,
+        trimEnd: 0,
+      })),
+    );
+  }, [storyboard, handleOpenAssembler]);
+
+  const handleSaveFile = useCallback((blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    saveUrl(url, filename);
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const handleDownloadAssembly = useCallback((blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    saveUrl(
+      url,
+      `charchiru-sequence-${Date.now()}.${fileExtensionForMimeType(blob.type)}`,
+    );
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const handleSwitchModelFromError = useCallback(() => {
+    if (!lastConfig) return;
+    setInitialFormValues({
+      ...lastConfig,
+      model:
+        lastConfig.model === VeoModel.VEO ? VeoModel.VEO_FAST : VeoModel.VEO,
+    });
+    setErrorMessage(null);
+    setGenerationError(null);
+    setAppState(AppState.IDLE);
+  }, [lastConfig]);
+
+  const renderErrorAction = (action: ErrorAction) => {
+    switch (action) {
+      case 'edit-prompt':
+        return (
+          <button key={action} onClick={handleTryAgainFromError}>
+            Edit Prompt
+          </button>
+        );
+      case 'switch-model':
+        // References and Extend only work with the standard model.
+        return lastConfig &&
+          lastConfig.mode !== GenerationMode.REFERENCES_TO_VIDEO &&
+          lastConfig.mode !== GenerationMode.EXTEND_VIDEO ? (
+          <button key={action} onClick={handleSwitchModelFromError}>
+            Switch Model
+          </button>
+        ) : null;
+      case 'retry':
+        return lastConfig ? (
+          <button key={action} onClick={handleRetry}>
+            Retry
+          </button>
+        ) : null;
+      case 'wait-retry':
+        return lastConfig ? (
+          <WaitAndRetryButton key={action} onRetry={handleRetry} />
+        ) : null;
+      case 'update-key':
+        return getVideoProvider().requiresApiKey ? (
+          <button key={action} onClick={handleOpenApiKeyDialog}>
+            Update API Key
+          </button>
+        ) : null;
+      case 'open-usage':
+        return (
+          <button key={action} onClick={() => setAppState(AppState.USAGE)}>
+            Open Usage
+          </button>
+        );
+    }
+  };
+
+  const renderError = (message: string) => {
+    if (!generationError) {
+      return (
+        <div className="error-container">
+          <h2>[ System Error ]</h2>
+          <p>{message}</p>
+          <button onClick={handleTryAgainFromError}>Try Again</button>
+        </div>
+      );
+    }
+    const guidance = errorGuidance[generationError.kind];
+    return (
+      <div className="error-container">
+        <h2>[ {guidance.title} ]</h2>
+        <p>{message}</p>
+        <p className="error-hint">{guidance.hint}</p>
+        {generationError.details && (
+          <details className="error-details">
+            <summary>Details</summary>
+            <p>{generationError.details}</p>
+          </details>
+        )}
+        <div className="error-actions">
+          {guidance.actions.map(renderErrorAction)}
+          {!guidance.actions.includes('edit-prompt') && (
+            <button onClick={handleTryAgainFromError}>Back</button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const renderIdleContent = () => (
     <>
       <div className="idle-container">
@@ -203,22 +955,16 @@ a.href = videoUrl;
           <h2>SYSTEM.READY AWAITING COMMAND...</h2>
         </div>
         <div>
-          <h3>&gt; OR LOAD EXAMPLE:</h3>
-          <div className="example-prompts">
-            {examplePrompts.map((example) => (
-              <button
-                key={example.title}
-                onClick={() => handleSelectExample(example)}>
-                {example.title}
-              </button>
-            ))}
-          </div>
+          <h3>&gt; OR LOAD TEMPLATE:</h3>
+          <TemplateLibrary onApply={handleApplyTemplate} />
         </div>
       </div>
       <div className="prompt-form-container">
         <PromptForm
           onGenerate={handleGenerate}
+          onQueue={handleQueue}
           initialValues={initialFormValues}
+          onChange={handleFormChange}
           lastVideoObject={lastVideoObject}
           lastVideoBlob={lastVideoBlob}
           lastConfig={lastConfig}
@@ -230,16 +976,46 @@ a.href = videoUrl;
   const renderActiveContent = () => {
     switch (appState) {
       case AppState.LOADING:
-        return <LoadingIndicator />;
+        return (
+          <LoadingIndicator
+            progress={generationProgress}
+            estimatedDurationMs={
+              lastConfig
+                ? estimateJobDuration(lastConfig.model, lastConfig.resolution)
+                : null
+            }
+            onCancel={handleCancelGeneration}
+          />
+        );
       case AppState.SUCCESS:
+        if (candidates.length > 1) {
+          return (
+            <CandidateComparison
+              candidates={candidates}
+              onPick={handlePickCandidate}
+              onRetry={handleRetry}
+              onNewVideo={handleNewVideo}
+            />
+          );
+        }
         return videoUrl ? (
           <VideoResult
+            key={videoUrl}
             videoUrl={videoUrl}
+            videoBlob={lastVideoBlob}
+            params={lastConfig}
             onRetry={handleRetry}
             onNewVideo={handleNewVideo}
             onExtend={handleExtend}
-            canExtend={lastConfig?.resolution === Resolution.P720}
+            canExtend={
+              !!lastConfig &&
+              !!lastVideoObject?.uri &&
+              canExtendResult(lastConfig)
+            }
             onDownload={handleDownload}
+            onUseFrame={handleUseFrame}
+            onSaveEdit={handleSaveEdit}
+            onSaveFile={handleSaveFile}
           />
         ) : (
           renderError('Video generated, but URL is missing. Please try again.')
@@ -248,6 +1024,76 @@ a.href = videoUrl;
         return errorMessage
           ? renderError(errorMessage)
           : renderError('An unknown error occurred.');
+      case AppState.HISTORY:
+        return (
+          <HistoryGallery
+            entries={historyEntries}
+            isLoading={isHistoryLoading}
+            onPlay={handlePlayHistoryEntry}
+            onDownload={handleDownloadHistoryEntry}
+            onDelete={handleDeleteHistoryEntry}
+            onLoadSettings={handleLoadHistorySettings}
+            onExportProject={handleExportProject}
+            onImportProject={handleImportProject}
+            onClose={handleBackToIdle}
+          />
+        );
+      case AppState.QUEUE:
+        return (
+          <JobQueuePanel
+            jobs={jobs}
+            concurrency={queueConcurrency}
+            onConcurrencyChange={handleConcurrencyChange}
+            onCancel={(job) => jobQueue.cancel(job.id)}
+            onRemove={(job) => jobQueue.remove(job.id)}
+            onPlay={handlePlayJob}
+            onDownload={handleDownloadJob}
+            onClearFinished={jobQueue.clearFinished}
+            onClose={handleBackToIdle}
+          />
+        );
+      case AppState.SWEEP:
+        return (
+          <SweepPanel
+            sweep={sweep}
+            jobs={jobs}
+            concurrency={queueConcurrency}
+            onStart={handleStartSweep}
+            onNewSweep={() => setSweep(null)}
+            onPlay={handlePlayJob}
+            onDownload={handleDownloadJob}
+            onClose={handleBackToIdle}
+          />
+        );
+      case AppState.STORYBOARD:
+        return (
+          <StoryboardEditor
+            storyboard={storyboard}
+            onAddShot={storyboardController.addShot}
+            onUpdateShot={storyboardController.updateShot}
+            onRemoveShot={storyboardController.removeShot}
+            onMoveShot={storyboardController.moveShot}
+            onAspectRatioChange={storyboardController.setAspectRatio}
+            onRun={storyboardController.run}
+            onReroll={storyboardController.reroll}
+            onCancel={storyboardController.cancel}
+            onOpenShot={handleOpenStoryboardShot}
+            onExportSequence={handleAssembleStoryboard}
+            onClose={handleBackToIdle}
+          />
+        );
+      case AppState.USAGE:
+        return <UsageDashboard onClose={handleBackToIdle} />;
+      case AppState.ASSEMBLY:
+        return (
+          <ClipAssembler
+            initialClips={assemblyClips}
+            historyEntries={historyEntries}
+            isHistoryLoading={isHistoryLoading}
+            onDownload={handleDownloadAssembly}
+            onClose={handleBackToIdle}
+          />
+        );
       default:
         return null;
     }
@@ -261,12 +1107,56 @@ a.href = videoUrl;
     <div className="app-container">
       <header className="app-header">
         <h1>CharChiru</h1>
+        <nav className="app-nav">
+          <button
+            onClick={handleOpenHistory}
+            disabled={appState === AppState.LOADING}>
+            History
+          </button>
+          <button
+            onClick={() => setAppState(AppState.QUEUE)}
+            disabled={appState === AppState.LOADING}>
+            Queue ({jobs.filter(isJobActive).length}/{jobs.length})
+          </button>
+          <button
+            onClick={() => setAppState(AppState.STORYBOARD)}
+            disabled={appState === AppState.LOADING}>
+            Storyboard{storyboard.isRunning ? ' (rendering)' : ''}
+          </button>
+          <button
+            onClick={() => setAppState(AppState.SWEEP)}
+            disabled={appState === AppState.LOADING}>
+            Sweep
+          </button>
+          <button
+            onClick={() => handleOpenAssembler()}
+            disabled={appState === AppState.LOADING}>
+            Assemble
+          </button>
+          <button
+            onClick={() => setAppState(AppState.USAGE)}
+            disabled={appState === AppState.LOADING}>
+            Usage
+          </button>
+          {getVideoProvider().requiresApiKey && (
+            <button onClick={handleOpenApiKeyDialog}>API Key</button>
+          )}
+        </nav>
       </header>
       <main className="app-main">
         {appState === AppState.IDLE
           ? renderIdleContent()
           : renderActiveContent()}
       </main>
+      {isApiKeyDialogOpen && (
+        <ApiKeyDialog
+          source={apiKeySource}
+          reason={apiKeyDialogReason ?? undefined}
+          onSubmit={handleSaveApiKey}
+          onClear={handleClearApiKey}
+          onClose={() => setIsApiKeyDialogOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {ApiKeySource, getApiKey, maskApiKey} from '../services/apiKeyStore';
+import ApiKeyInput from './ApiKeyInput';
+
+interface ApiKeyDialogProps {
+  source: ApiKeySource | null;
+  reason?: string;
+  onSubmit: (apiKey: string, persist: boolean) => Promise<void>;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const sourceLabels: Record<ApiKeySource, string> = {
+  session: 'this session only',
+  persisted: 'saved on this device',
+  env: 'build-time default',
+};
+
+const ApiKeyDialog: React.FC<ApiKeyDialogProps> = ({
+  source,
+  reason,
+  onSubmit,
+  onClear,
+  onClose,
+}) => {
+  const currentKey = source ? getApiKey() : undefined;
+
+  return (
+    <div className="api-key-dialog-overlay" role="dialog" aria-modal="true">
+      <div className="api-key-input-container">
+        <ApiKeyInput onSubmit={onSubmit} reason={reason} />
+        {source && currentKey && (
+          <div className="api-key-settings">
+            <span>
+              Current key: {maskApiKey(currentKey)} ({sourceLabels[source]})
+            </span>
+          </div>
+        )}
+        <div className="api-key-settings">
+          {(source === 'session' || source === 'persisted') && (
+            <button type="button" onClick={onClear}>
+              Remove Key
+            </button>
+          )}
+          {source && (
+            <button type="button" onClick={onClose}>
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyDialog;
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+
+interface ApiKeyInputProps {
+  // Validates and stores the key; rejects with a user-facing error.
+  onSubmit: (apiKey: string, persist: boolean) => Promise<void>;
+  reason?: string;
+}
+
+const ApiKeyInput: React.FC<ApiKeyInputProps> = ({onSubmit, reason}) => {
+  const [apiKey, setApiKey] = useState('');
+  const [persist, setPersist] = useState(false);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsValidating(true);
+    setError(null);
+    try {
+      await onSubmit(apiKey.trim(), persist);
+      setApiKey('');
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'The key could not be verified.',
+      );
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <h2>[ Enter API Key ]</h2>
+      <p>
+        {reason ??
+          'CharChiru needs a Gemini API key with Veo access. Usage is billed to the key owner.'}
+      </p>
+      <div className="input-group">
+        <label htmlFor="api-key-input">Gemini API Key</label>
+        <input
+          id="api-key-input"
+          type={isRevealed ? 'text' : 'password'}
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="AIza..."
+          autoComplete="off"
+          spellCheck={false}
+          disabled={isValidating}
+        />
+      </div>
+      <div className="api-key-options">
+        <label>
+          <input
+            type="checkbox"
+            checked={isRevealed}
+            onChange={(e) => setIsRevealed(e.target.checked)}
+          />{' '}
+          Show key
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={persist}
+            onChange={(e) => setPersist(e.target.checked)}
+          />{' '}
+          Remember on this device
+        </label>
+      </div>
+      {error && <p className="api-key-error">{error}</p>}
+      <button type="submit" disabled={!apiKey.trim() || isValidating}>
+        {isValidating ? 'Validating...' : 'Validate & Save'}
+      </button>
+      <p className="api-key-note">
+        Without "remember", the key is forgotten when this tab closes. Get a key
+        from{' '}
+        <a
+          href="https://aistudio.google.com/apikey"
+          target="_blank"
+          rel="noopener noreferrer">
+          Google AI Studio
+        </a>
+        .
+      </p>
+    </form>
+  );
+};
+
+export default ApiKeyInput;
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {MUSIC_TEMPOS} from '../services/audioDesign';
+import {AudioDesign, DialogueLine} from '../types';
+
+interface AudioDesignPanelProps {
+  design: AudioDesign;
+  musicPrompt: string;
+  // False in modes that keep the input's audio, e.g. Extend Video.
+  canToggleAudio: boolean;
+  isAudioOff: boolean;
+  // The compiled prompt suffix, or null when nothing will be added.
+  preview: string | null;
+  onDesignChange: (design: AudioDesign) => void;
+  onMusicPromptChange: (musicPrompt: string) => void;
+  onAudioOffChange: (isAudioOff: boolean) => void;
+}
+
+const replaceAt = <T,>(items: T[], index: number, item: T) =>
+  items.map((current, i) => (i === index ? item : current));
+
+const removeAt = <T,>(items: T[], index: number) =>
+  items.filter((_, i) => i !== index);
+
+const AudioDesignPanel: React.FC<AudioDesignPanelProps> = ({
+  design,
+  musicPrompt,
+  canToggleAudio,
+  isAudioOff,
+  preview,
+  onDesignChange,
+  onMusicPromptChange,
+  onAudioOffChange,
+}) => {
+  const update = (patch: Partial<AudioDesign>) =>
+    onDesignChange({...design, ...patch});
+
+  const updateDialogue = (index: number, patch: Partial<DialogueLine>) =>
+    update({
+      dialogue: replaceAt(design.dialogue, index, {
+        ...design.dialogue[index],
+        ...patch,
+      }),
+    });
+
+  return (
+    <div className="audio-design">
+      <div className="audio-design-header">
+        <span>Audio</span>
+        {canToggleAudio && (
+          <label>
+            <input
+              type="checkbox"
+              checked={isAudioOff}
+              onChange={(e) => onAudioOffChange(e.target.checked)}
+            />{' '}
+            Audio off
+          </label>
+        )}
+      </div>
+
+      {!isAudioOff && (
+        <>
+          <fieldset>
+            <legend>Music</legend>
+            <div className="audio-design-row">
+              <input
+                type="text"
+                className="text-input"
+                value={design.musicGenre}
+                onChange={(e) => update({musicGenre: e.target.value})}
+                placeholder="Genre, e.g. 'synthwave'"
+                aria-label="Music genre"
+              />
+              <input
+                type="text"
+                className="text-input"
+                value={design.musicMood}
+                onChange={(e) => update({musicMood: e.target.value})}
+                placeholder="Mood, e.g. 'nostalgic'"
+                aria-label="Music mood"
+              />
+              <select
+                value={design.musicTempo}
+                onChange={(e) => update({musicTempo: e.target.value})}
+                aria-label="Music tempo">
+                <option value="">Any tempo</option>
+                {MUSIC_TEMPOS.map((tempo) => (
+                  <option key={tempo} value={tempo}>
+                    {tempo}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="text"
+              className="text-input"
+              value={musicPrompt}
+              onChange={(e) => onMusicPromptChange(e.target.value)}
+              placeholder="Other music notes, e.g. 'soft piano melody'"
+              aria-label="Music notes"
+            />
+          </fieldset>
+
+          <fieldset>
+            <legend>Ambient Sound</legend>
+            <input
+              type="text"
+              className="text-input"
+              value={design.ambience}
+              onChange={(e) => update({ambience: e.target.value})}
+              placeholder="e.g. 'distant traffic and light rain'"
+              aria-label="Ambient sound"
+            />
+          </fieldset>
+
+          <fieldset>
+            <legend>Sound Effects</legend>
+            {design.soundEffects.map((cue, index) => (
+              <div key={index} className="audio-design-row">
+                <input
+                  type="text"
+                  className="text-input"
+                  value={cue}
+                  onChange={(e) =>
+                    update({
+                      soundEffects: replaceAt(
+                        design.soundEffects,
+                        index,
+                        e.target.value,
+                      ),
+                    })
+                  }
+                  placeholder="e.g. 'a door creaks open'"
+                  aria-label={`Sound effect ${index + 1}`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    update({soundEffects: removeAt(design.soundEffects, index)})
+                  }
+                  aria-label={`Remove sound effect ${index + 1}`}>
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                update({soundEffects: [...design.soundEffects, '']})
+              }>
+              + Sound Effect
+            </button>
+          </fieldset>
+
+          <fieldset>
+            <legend>Dialogue</legend>
+            {design.dialogue.map((line, index) => (
+              <div key={index} className="audio-design-row">
+                <input
+                  type="text"
+                  className="text-input audio-design-speaker"
+                  value={line.speaker}
+                  onChange={(e) =>
+                    updateDialogue(index, {speaker: e.target.value})
+                  }
+                  placeholder="Speaker"
+                  aria-label={`Speaker ${index + 1}`}
+                />
+                <input
+                  type="text"
+                  className="text-input"
+                  value={line.line}
+                  onChange={(e) => updateDialogue(index, {line: e.target.value})}
+                  placeholder="What they say"
+                  aria-label={`Line ${index + 1}`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    update({dialogue: removeAt(design.dialogue, index)})
+                  }
+                  aria-label={`Remove line ${index + 1}`}>
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  dialogue: [...design.dialogue, {speaker: '', line: ''}],
+                })
+              }>
+              + Dialogue Line
+            </button>
+          </fieldset>
+        </>
+      )}
+
+      {preview && <p className="audio-design-preview">{preview}</p>}
+    </div>
+  );
+};
+
+export default AudioDesignPanel;
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {GeneratedVideo} from '../types';
+
+interface CandidateComparisonProps {
+  candidates: GeneratedVideo[];
+  onPick: (index: number) => void;
+  onRetry: () => void;
+  onNewVideo: () => void;
+}
+
+// Plays every candidate in lockstep so takes can be compared frame by frame.
+// Only the selected candidate is audible.
+const CandidateComparison: React.FC<CandidateComparisonProps> = ({
+  candidates,
+  onPick,
+  onRetry,
+  onNewVideo,
+}) => {
+  const videoRefs = useRef<Array<HTMLVideoElement | null>>([]);
+  const [selected, setSelected] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  const forEachVideo = (callback: (video: HTMLVideoElement) => void) =>
+    videoRefs.current.forEach((video) => video && callback(video));
+
+  useEffect(() => {
+    forEachVideo((video) => {
+      if (isPlaying) {
+        video.play().catch(() => setIsPlaying(false));
+      } else {
+        video.pause();
+      }
+    });
+  }, [isPlaying]);
+
+  const seekAll = (time: number) => {
+    forEachVideo((video) => {
+      video.currentTime = time;
+    });
+    setCurrentTime(time);
+  };
+
+  // The first candidate drives the shared clock; the others follow it.
+  const handleTimeUpdate = (index: number) => {
+    const leader = videoRefs.current[0];
+    if (index !== 0 || !leader) return;
+    setCurrentTime(leader.currentTime);
+    forEachVideo((video) => {
+      if (Math.abs(video.currentTime - leader.currentTime) > 0.15) {
+        video.currentTime = leader.currentTime;
+      }
+    });
+  };
+
+  return (
+    <div className="video-result candidate-comparison">
+      <h2>PICK A CANDIDATE</h2>
+      <div className="candidate-grid">
+        {candidates.map((candidate, index) => (
+          <button
+            key={candidate.objectUrl}
+            type="button"
+            className={`candidate${index === selected ? ' active' : ''}`}
+            onClick={() => setSelected(index)}
+            aria-pressed={index === selected}>
+            <video
+              ref={(el) => {
+                videoRefs.current[index] = el;
+              }}
+              src={candidate.objectUrl}
+              muted={index !== selected}
+              autoPlay
+              loop
+              playsInline
+              onLoadedMetadata={(e) =>
+                setDuration((d) => Math.max(d, e.currentTarget.duration))
+              }
+              onTimeUpdate={() => handleTimeUpdate(index)}
+            />
+            <span>CANDIDATE {index + 1}</span>
+          </button>
+        ))}
+      </div>
+      <div className="candidate-transport">
+        <button onClick={() => setIsPlaying((playing) => !playing)}>
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.04}
+          value={currentTime}
+          onChange={(e) => seekAll(Number(e.target.value))}
+          aria-label="Seek all candidates"
+        />
+        <span>
+          {currentTime.toFixed(1)}s / {duration.toFixed(1)}s
+        </span>
+      </div>
+      <div className="video-actions">
+        <button onClick={() => onPick(selected)}>
+          Keep Candidate {selected + 1}
+        </button>
+        <button onClick={onRetry}>Retry</button>
+        <button onClick={onNewVideo}>New Video</button>
+      </div>
+      <p className="storyboard-hint">
+        Keeping a candidate discards the others from history.
+      </p>
+    </div>
+  );
+};
+
+export default CandidateComparison;
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  AssemblyClip,
+  assembleClips,
+  getClipDuration,
+  pickAssemblyMimeType,
+} from '../services/videoAssembly';
+import {HistoryEntry} from '../types';
+import {renderBar} from './LoadingIndicator';
+
+interface ClipAssemblerProps {
+  initialClips: AssemblyClip[];
+  historyEntries: HistoryEntry[];
+  isHistoryLoading: boolean;
+  onDownload: (blob: Blob) => void;
+  onClose: () => void;
+}
+
+const toClip = (entry: HistoryEntry): AssemblyClip => ({
+  id: crypto.randomUUID(),
+  label: entry.params.prompt || `(${entry.params.mode})`,
+  blob: entry.blob,
+  trimStart: 0,
+  trimEnd: 0,
+});
+
+const ClipAssembler: React.FC<ClipAssemblerProps> = ({
+  initialClips,
+  historyEntries,
+  isHistoryLoading,
+  onDownload,
+  onClose,
+}) => {
+  const [clips, setClips] = useState<AssemblyClip[]>(initialClips);
+  const [durations, setDurations] = useState(new Map<Blob, number>());
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [output, setOutput] = useState<{blob: Blob; url: string} | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const mimeType = pickAssemblyMimeType();
+
+  useEffect(() => {
+    const missing = clips.filter((clip) => !durations.has(clip.blob));
+    if (missing.length === 0) return;
+    Promise.all(
+      missing.map(async (clip) => [clip.blob, await getClipDuration(clip.blob)]),
+    )
+      .then((loaded) =>
+        setDurations((previous) => {
+          const next = new Map(previous);
+          for (const [blob, duration] of loaded as Array<[Blob, number]>) {
+            next.set(blob, duration);
+          }
+          return next;
+        }),
+      )
+      .catch((err) => console.error('Failed to read clip duration:', err));
+  }, [clips, durations]);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+    },
+    [],
+  );
+
+  useEffect(() => {
+    return () => {
+      if (output) URL.revokeObjectURL(output.url);
+    };
+  }, [output]);
+
+  const isExporting = progress !== null;
+
+  const updateClip = (id: string, patch: Partial<AssemblyClip>) => {
+    setClips((current) =>
+      current.map((clip) => (clip.id === id ? {...clip, ...patch} : clip)),
+    );
+    setOutput(null);
+  };
+
+  const moveClip = (index: number, offset: number) => {
+    setClips((current) => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+    setOutput(null);
+  };
+
+  const removeClip = (id: string) => {
+    setClips((current) => current.filter((clip) => clip.id !== id));
+    setOutput(null);
+  };
+
+  const addEntry = (entry: HistoryEntry) => {
+    setClips((current) => [...current, toClip(entry)]);
+    setOutput(null);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setOutput(null);
+    setProgress(0);
+    try {
+      const blob = await assembleClips(clips, {
+        signal: controller.signal,
+        onProgress: ({fraction}) => setProgress(fraction),
+      });
+      setOutput({blob, url: URL.createObjectURL(blob)});
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Failed to assemble clips:', err);
+        setError(err instanceof Error ? err.message : 'Export failed.');
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const totalSeconds = clips.reduce((sum, clip) => {
+    const duration = durations.get(clip.blob) ?? 0;
+    return sum + Math.max(0, duration - clip.trimStart - clip.trimEnd);
+  }, 0);
+
+  return (
+    <div className="clip-assembler">
+      <h2>SEQUENCE EXPORT</h2>
+      {!mimeType && (
+        <p className="job-error">This browser cannot record video.</p>
+      )}
+      {mimeType && (
+        <p className="storyboard-hint">
+          Clips are played back and re-encoded in real time, so export takes
+          as long as the sequence and loses some quality. Keep this tab in
+          front while it runs; background tabs pause the recording.
+          {mimeType.startsWith('video/webm')
+            ? ' This browser cannot record MP4; the sequence will be saved as WebM.'
+            : ' Browsers that cannot record MP4 save WebM instead.'}
+        </p>
+      )}
+      {clips.length === 0 && <p>Add clips from your history below.</p>}
+      <ol className="assembly-clips">
+        {clips.map((clip, index) => {
+          const duration = durations.get(clip.blob);
+          return (
+            <li key={clip.id} className="assembly-clip">
+              <span className="assembly-clip-label">
+                {index + 1}. {clip.label}
+              </span>
+              <span className="assembly-clip-duration">
+                {duration ? `${duration.toFixed(1)}s` : '--'}
+              </span>
+              <label>
+                Trim head
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={clip.trimStart}
+                  disabled={isExporting}
+                  onChange={(e) =>
+                    updateClip(clip.id, {
+                      trimStart: Math.max(0, Number(e.target.value)),
+                    })
+                  }
+                />
+              </label>
+              <label>
+                Trim tail
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={clip.trimEnd}
+                  disabled={isExporting}
+                  onChange={(e) =>
+                    updateClip(clip.id, {
+                      trimEnd: Math.max(0, Number(e.target.value)),
+                    })
+                  }
+                />
+              </label>
+              <span className="job-actions">
+                <button
+                  onClick={() => moveClip(index, -1)}
+                  disabled={isExporting || index === 0}
+                  aria-label="Move clip up">
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveClip(index, 1)}
+                  disabled={isExporting || index === clips.length - 1}
+                  aria-label="Move clip down">
+                  ↓
+                </button>
+                <button
+                  onClick={() => removeClip(clip.id)}
+                  disabled={isExporting}>
+                  Remove
+                </button>
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+      <div className="storyboard-toolbar">
+        <span>Total {totalSeconds.toFixed(1)}s</span>
+        {isExporting ? (
+          <button onClick={() => controllerRef.current?.abort()}>Cancel</button>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={!mimeType || clips.length === 0}>
+            Export Sequence
+          </button>
+        )}
+      </div>
+      {isExporting && (
+        <p className="assembly-progress">
+          ENCODING {renderBar(progress)} {Math.round(progress * 100)}%
+        </p>
+      )}
+      {error && <p className="job-error">{error}</p>}
+      {output && (
+        <div className="storyboard-timeline">
+          <video src={output.url} controls />
+          <button onClick={() => onDownload(output.blob)}>Download</button>
+        </div>
+      )}
+      <h3>&gt; ADD FROM HISTORY</h3>
+      {isHistoryLoading && <p>Loading history...</p>}
+      <ul className="job-list">
+        {historyEntries.map((entry) => (
+          <li key={entry.id} className="job-item assembly-history-item">
+            <span className="job-prompt">
+              {entry.params.prompt || `(${entry.params.mode})`}
+            </span>
+            <span className="job-actions">
+              <button onClick={() => addEntry(entry)} disabled={isExporting}>
+                Add
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="video-actions">
+        <button onClick={onClose} disabled={isExporting}>
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClipAssembler;
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  filenameTokens,
+  formatFilename,
+  getFilenameTemplate,
+  setFilenameTemplate,
+} from '../services/fileNaming';
+import {formatBytes} from '../services/imageProcessing';
+import {
+  DEFAULT_GIF_SETTINGS,
+  ExportFormat,
+  GIF_COLOR_OPTIONS,
+  GIF_FPS_OPTIONS,
+  GIF_WIDTH_OPTIONS,
+  GifSettings,
+  exportPresets,
+  exportVideo,
+  getExportExtension,
+  isFormatSupported,
+} from '../services/videoExport';
+import {GenerateVideoParams} from '../types';
+import {renderBar} from './LoadingIndicator';
+
+interface ExportDialogProps {
+  blob: Blob;
+  params: GenerateVideoParams | null;
+  onSave: (blob: Blob, filename: string) => void;
+  onClose: () => void;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  mp4: 'MP4 video',
+  webm: 'WebM video',
+  gif: 'Animated GIF',
+};
+
+const formats = Object.keys(formatLabels) as ExportFormat[];
+
+const NumberSelect: React.FC<{
+  label: string;
+  value: number;
+  options: number[];
+  format: (value: number) => string;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}> = ({label, value, options, format, disabled, onChange}) => (
+  <label className="template-field">
+    {label}
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}>
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {format(option)}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  blob,
+  params,
+  onSave,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('mp4');
+  const [presetId, setPresetId] = useState(exportPresets[0].id);
+  const [gif, setGif] = useState<GifSettings>(DEFAULT_GIF_SETTINGS);
+  const [template, setTemplate] = useState(getFilenameTemplate);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [savedSize, setSavedSize] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+    },
+    [],
+  );
+
+  const isExporting = progress !== null;
+  const preset =
+    exportPresets.find((p) => p.id === presetId) ?? exportPresets[0];
+  // The real extension is only known after recording (MP4 may fall back to
+  // WebM), so the preview assumes the requested format.
+  const previewName = formatFilename(params, format, template);
+  const isRecorded =
+    format === 'webm' || (format === 'mp4' && preset !== exportPresets[0]);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setSavedSize(null);
+    setAttempt(0);
+    setProgress(0);
+    try {
+      const output = await exportVideo(
+        blob,
+        {format, preset, gif},
+        {
+          signal: controller.signal,
+          onProgress: (fraction, pass) => {
+            setProgress(fraction);
+            setAttempt(pass);
+          },
+        },
+      );
+      setFilenameTemplate(template);
+      onSave(
+        output,
+        formatFilename(params, getExportExtension(format, output), template),
+      );
+      setSavedSize(output.size);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Failed to export video:', err);
+        setError(err instanceof Error ? err.message : 'Export failed.');
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="api-key-dialog-overlay" role="dialog" aria-modal="true">
+      <div className="export-dialog">
+        <h2>EXPORT</h2>
+        <div className="export-dialog-grid">
+          <label className="template-field">
+            Format
+            <select
+              value={format}
+              disabled={isExporting}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+              {formats.map((value) => (
+                <option
+                  key={value}
+                  value={value}
+                  disabled={!isFormatSupported(value)}>
+                  {formatLabels[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="template-field">
+            Preset
+            <select
+              value={presetId}
+              disabled={isExporting}
+              onChange={(e) => setPresetId(e.target.value)}>
+              {exportPresets.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {format === 'gif' && (
+            <>
+              <NumberSelect
+                label="Frame Rate"
+                value={gif.fps}
+                options={GIF_FPS_OPTIONS}
+                format={(fps) => `${fps} fps`}
+                disabled={isExporting}
+                onChange={(fps) => setGif({...gif, fps})}
+              />
+              <NumberSelect
+                label="Width"
+                value={gif.width}
+                options={GIF_WIDTH_OPTIONS}
+                format={(width) => `${width}px`}
+                disabled={isExporting}
+                onChange={(width) => setGif({...gif, width})}
+              />
+              <NumberSelect
+                label="Palette"
+                value={gif.colors}
+                options={GIF_COLOR_OPTIONS}
+                format={(colors) => `${colors} colors`}
+                disabled={isExporting}
+                onChange={(colors) => setGif({...gif, colors})}
+              />
+            </>
+          )}
+        </div>
+        <label className="template-field">
+          File Name
+          <input
+            type="text"
+            value={template}
+            disabled={isExporting}
+            onChange={(e) => setTemplate(e.target.value)}
+            placeholder={DEFAULT_FILENAME_TEMPLATE}
+          />
+        </label>
+        <p className="export-dialog-hint">
+          {previewName}
+          <br />
+          {Object.entries(filenameTokens)
+            .map(([token, description]) => `{${token}} ${description}`)
+            .join(' · ')}
+        </p>
+        {isRecorded && (
+          <p className="export-dialog-hint">
+            Video exports are re-recorded in real time and take about as long
+            as the clip.
+          </p>
+        )}
+        {isExporting && (
+          <p className="assembly-progress">
+            {attempt > 0 ? `SHRINKING (PASS ${attempt + 1}) ` : 'ENCODING '}
+            {renderBar(progress)} {Math.round(progress * 100)}%
+          </p>
+        )}
+        {error && <p className="job-error">{error}</p>}
+        {savedSize !== null && (
+          <p className="export-dialog-hint">Saved {formatBytes(savedSize)}.</p>
+        )}
+        <div className="video-actions">
+          {isExporting ? (
+            <button
+              type="button"
+              onClick={() => controllerRef.current?.abort()}>
+              Cancel
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={!isFormatSupported(format)}>
+              Export
+            </button>
+          )}
+          <button type="button" onClick={onClose} disabled={isExporting}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
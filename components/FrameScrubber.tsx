@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {
+  FRAME_STEP_SECONDS,
+  captureFrame,
+  frameSlotLabels,
+  seekVideo,
+} from '../services/frameExtraction';
+import {FrameSlot, ImageFile} from '../types';
+
+interface FrameScrubberProps {
+  // The player to scrub; it is paused while a frame is picked.
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  onUseFrame: (slot: FrameSlot, frame: ImageFile) => void;
+}
+
+const slots = Object.keys(frameSlotLabels) as FrameSlot[];
+
+const FrameScrubber: React.FC<FrameScrubberProps> = ({videoRef, onUseFrame}) => {
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [frame, setFrame] = useState<ImageFile | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const sync = () => {
+      setTime(video.currentTime);
+      setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+    };
+    sync();
+    video.pause();
+    video.addEventListener('timeupdate', sync);
+    video.addEventListener('seeked', sync);
+    video.addEventListener('loadedmetadata', sync);
+    return () => {
+      video.removeEventListener('timeupdate', sync);
+      video.removeEventListener('seeked', sync);
+      video.removeEventListener('loadedmetadata', sync);
+    };
+  }, [videoRef]);
+
+  useEffect(() => {
+    if (!frame) return;
+    const url = URL.createObjectURL(frame.file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [frame]);
+
+  const seek = async (target: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    setError(null);
+    try {
+      await seekVideo(video, target);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleCapture = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setError(null);
+    try {
+      setFrame(await captureFrame(video));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="frame-scrubber">
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={FRAME_STEP_SECONDS}
+        value={time}
+        onChange={(e) => seek(Number(e.target.value))}
+        aria-label="Scrub to frame"
+      />
+      <div className="job-actions">
+        <button type="button" onClick={() => seek(0)}>
+          |&lt; First
+        </button>
+        <button type="button" onClick={() => seek(time - FRAME_STEP_SECONDS)}>
+          &lt;
+        </button>
+        <span>
+          {time.toFixed(2)}s / {duration.toFixed(2)}s
+        </span>
+        <button type="button" onClick={() => seek(time + FRAME_STEP_SECONDS)}>
+          &gt;
+        </button>
+        <button type="button" onClick={() => seek(duration)}>
+          Last &gt;|
+        </button>
+        <button type="button" onClick={handleCapture}>
+          Grab Frame
+        </button>
+      </div>
+      {error && <p className="job-error">{error}</p>}
+      {frame && previewUrl && (
+        <div className="frame-capture">
+          <img src={previewUrl} alt="Captured frame" />
+          <div className="job-actions">
+            <span>Use as:</span>
+            {slots.map((slot) => (
+              <button
+                key={slot}
+                type="button"
+                onClick={() => onUseFrame(slot, frame)}>
+                {frameSlotLabels[slot]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrameScrubber;
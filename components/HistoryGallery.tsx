@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {PROJECT_EXTENSION, getExtensionChain} from '../services/projectFile';
+import {describeEdit} from '../services/videoEdit';
+import {HistoryEntry} from '../types';
+
+interface HistoryGalleryProps {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  onPlay: (entry: HistoryEntry) => void;
+  onDownload: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onLoadSettings: (entry: HistoryEntry) => void;
+  onExportProject: (entries: HistoryEntry[]) => Promise<void>;
+  // Resolves with the number of imported videos.
+  onImportProject: (file: File) => Promise<number>;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString();
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({
+  entries,
+  isLoading,
+  onPlay,
+  onDownload,
+  onDelete,
+  onLoadSettings,
+  onExportProject,
+  onImportProject,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [projectMessage, setProjectMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async (toExport: HistoryEntry[]) => {
+    setProjectMessage('Packing project...');
+    try {
+      await onExportProject(toExport);
+      setProjectMessage(null);
+    } catch (error) {
+      console.error('Failed to export project:', error);
+      setProjectMessage('The project could not be exported.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setProjectMessage('Loading project...');
+    try {
+      const count = await onImportProject(file);
+      setProjectMessage(`Imported ${count} video(s) and their settings.`);
+    } catch (error) {
+      setProjectMessage(
+        error instanceof Error ? error.message : 'Import failed.',
+      );
+    }
+  };
+
+  // One object URL per entry, revoked whenever the list changes.
+  const previewUrls = useMemo(() => {
+    const urls = new Map<string, string>();
+    for (const entry of entries) {
+      urls.set(entry.id, URL.createObjectURL(entry.blob));
+    }
+    return urls;
+  }, [entries]);
+
+  useEffect(() => {
+    return () => {
+      previewUrls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [previewUrls]);
+
+  return (
+    <div className="history-gallery">
+      <h2>GENERATION HISTORY</h2>
+      <div className="template-toolbar">
+        <button
+          onClick={() => handleExport(entries)}
+          disabled={entries.length === 0}>
+          Export Project
+        </button>
+        <button onClick={() => importInputRef.current?.click()}>
+          Import Project
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`${PROJECT_EXTENSION},application/json`}
+          onChange={handleImport}
+          style={{display: 'none'}}
+        />
+      </div>
+      {projectMessage && <p className="template-message">{projectMessage}</p>}
+      {isLoading && <p>Loading archive...</p>}
+      {!isLoading && entries.length === 0 && (
+        <p>No saved generations yet. Completed videos will appear here.</p>
+      )}
+      <div className="history-grid">
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            className={`history-item ${selectedId === entry.id ? 'active' : ''}`}
+            onMouseEnter={() => setSelectedId(entry.id)}
+            onMouseLeave={() => setSelectedId(null)}>
+            <video
+              src={previewUrls.get(entry.id)}
+              muted
+              loop
+              playsInline
+              ref={(el) => {
+                if (!el) return;
+                if (selectedId === entry.id) {
+                  el.play().catch(() => {});
+                } else {
+                  el.pause();
+                }
+              }}
+            />
+            <div className="history-item-meta">
+              <p className="history-item-prompt">
+                {entry.params.prompt || `(${entry.params.mode})`}
+              </p>
+              <p className="history-item-details">
+                {entry.params.mode} / {entry.params.resolution} /{' '}
+                {entry.params.aspectRatio}
+              </p>
+              {entry.derivedFrom && (
+                <p className="history-item-details">
+                  Edited: {describeEdit(entry.derivedFrom.edit)}
+                </p>
+              )}
+              <p className="history-item-details">
+                {formatTimestamp(entry.createdAt)}
+              </p>
+            </div>
+            <div className="history-item-actions">
+              <button onClick={() => onPlay(entry)}>Play</button>
+              <button onClick={() => onDownload(entry)}>Download</button>
+              <button onClick={() => onLoadSettings(entry)}>Load</button>
+              <button
+                onClick={() =>
+                  handleExport(getExtensionChain(entry, entries))
+                }>
+                Share
+              </button>
+              <button onClick={() => onDelete(entry)}>Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="video-actions">
+        <button onClick={onClose}>Back</button>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryGallery;
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {
+  CropRect,
+  ImageInfo,
+  centerCrop,
+  describeImageIssues,
+  formatBytes,
+  getOutputSize,
+  inspectImage,
+} from '../services/imageProcessing';
+import {AspectRatio, Resolution} from '../types';
+
+interface ImageCropDialogProps {
+  file: File;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  onConfirm: (crop: CropRect) => void;
+  onCancel: () => void;
+}
+
+const MAX_ZOOM = 4;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const ImageCropDialog: React.FC<ImageCropDialogProps> = ({
+  file,
+  aspectRatio,
+  resolution,
+  onConfirm,
+  onCancel,
+}) => {
+  const url = useMemo(() => URL.createObjectURL(file), [file]);
+  const [info, setInfo] = useState<ImageInfo | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{x: number; y: number; crop: CropRect} | null>(null);
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  useEffect(() => {
+    inspectImage(file)
+      .then((inspected) => {
+        setInfo(inspected);
+        setCrop(centerCrop(inspected, aspectRatio));
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [file, aspectRatio]);
+
+  if (error) {
+    return (
+      <div className="api-key-dialog-overlay" role="dialog" aria-modal="true">
+        <div className="image-crop-dialog">
+          <p className="job-error">{error}</p>
+          <div className="video-actions">
+            <button type="button" onClick={onCancel}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+  if (!info || !crop) return null;
+
+  const maxCrop = centerCrop(info, aspectRatio);
+  const zoom = maxCrop.width / crop.width;
+  const output = getOutputSize(crop.width, crop.height, resolution);
+  const issues = describeImageIssues(info, {aspectRatio, resolution});
+
+  const moveCrop = (x: number, y: number, size = crop) =>
+    setCrop({
+      ...size,
+      x: clamp(x, 0, info.width - size.width),
+      y: clamp(y, 0, info.height - size.height),
+    });
+
+  // Zooms around the center of the current crop.
+  const handleZoom = (value: number) => {
+    const width = maxCrop.width / value;
+    const height = maxCrop.height / value;
+    moveCrop(
+      crop.x + (crop.width - width) / 2,
+      crop.y + (crop.height - height) / 2,
+      {...crop, width, height},
+    );
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {x: e.clientX, y: e.clientY, crop};
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const image = imageRef.current;
+    if (!drag || !image) return;
+    // Pointer movement is in screen pixels; the crop is in image pixels.
+    const scale = info.width / image.clientWidth;
+    moveCrop(
+      drag.crop.x + (e.clientX - drag.x) * scale,
+      drag.crop.y + (e.clientY - drag.y) * scale,
+      drag.crop,
+    );
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="api-key-dialog-overlay" role="dialog" aria-modal="true">
+      <div className="image-crop-dialog">
+        <h2>CROP TO {aspectRatio}</h2>
+        <div className="image-crop-stage">
+          <img ref={imageRef} src={url} alt="Image to crop" draggable={false} />
+          <div
+            className="image-crop-box"
+            style={{
+              left: percent(crop.x, info.width),
+              top: percent(crop.y, info.height),
+              width: percent(crop.width, info.width),
+              height: percent(crop.height, info.height),
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => (dragRef.current = null)}
+            onPointerCancel={() => (dragRef.current = null)}
+          />
+        </div>
+        <label className="template-field">
+          Zoom
+          <input
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => handleZoom(Number(e.target.value))}
+          />
+        </label>
+        <p className="image-crop-info">
+          {info.width}x{info.height} {info.mimeType || 'image'},{' '}
+          {formatBytes(info.bytes)} &rarr; {output.width}x{output.height} JPEG
+        </p>
+        {issues.map((issue) => (
+          <p key={issue} className="image-crop-info">
+            {issue}
+          </p>
+        ))}
+        <div className="video-actions">
+          <button type="button" onClick={() => onConfirm(crop)}>
+            Use Crop
+          </button>
+          <button type="button" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropDialog;
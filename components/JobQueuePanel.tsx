@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {isJobFinished} from '../services/jobQueue';
+import {GenerationJob, GenerationPhase, JobStatus} from '../types';
+
+interface JobQueuePanelProps {
+  jobs: GenerationJob[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onCancel: (job: GenerationJob) => void;
+  onRemove: (job: GenerationJob) => void;
+  onPlay: (job: GenerationJob) => void;
+  onDownload: (job: GenerationJob) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const statusLabels: Record<JobStatus, string> = {
+  [JobStatus.QUEUED]: 'QUEUED',
+  [JobStatus.POLLING]: 'RENDERING',
+  [JobStatus.DOWNLOADING]: 'DOWNLOADING',
+  [JobStatus.DONE]: 'DONE',
+  [JobStatus.FAILED]: 'FAILED',
+  [JobStatus.CANCELLED]: 'CANCELLED',
+};
+
+const formatElapsed = (job: GenerationJob, now: number) => {
+  if (!job.startedAt) return '--:--';
+  const seconds = Math.floor(((job.finishedAt ?? now) - job.startedAt) / 1000);
+  const mm = String(Math.floor(seconds / 60)).padStart(2, '0');
+  const ss = String(seconds % 60).padStart(2, '0');
+  return `${mm}:${ss}`;
+};
+
+const formatProgress = (job: GenerationJob) => {
+  const {progress} = job;
+  if (!progress) return '';
+  if (progress.retry && progress.phase === GenerationPhase.RETRYING) {
+    return ` RETRY ${progress.retry.attempt + 1}/${progress.retry.maxAttempts}`;
+  }
+  if (job.status === JobStatus.DOWNLOADING && progress.bytesTotal) {
+    const percent = Math.round(
+      ((progress.bytesReceived ?? 0) / progress.bytesTotal) * 100,
+    );
+    return ` ${percent}%`;
+  }
+  if (job.status === JobStatus.POLLING && progress.pollCount) {
+    return ` #${progress.pollCount}`;
+  }
+  return '';
+};
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onCancel,
+  onRemove,
+  onPlay,
+  onDownload,
+  onClearFinished,
+  onClose,
+}) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  return (
+    <div className="job-queue">
+      <h2>RENDER QUEUE</h2>
+      <div className="job-queue-toolbar">
+        <label htmlFor="queue-concurrency">Parallel jobs</label>
+        <div className="custom-select">
+          <select
+            id="queue-concurrency"
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}>
+            {[1, 2, 3, 4, 6, 8].map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={onClearFinished}
+          disabled={!jobs.some(isJobFinished)}>
+          Clear Finished
+        </button>
+      </div>
+      {jobs.length === 0 && (
+        <p>The queue is empty. Use [+Q] in the prompt bar to add jobs.</p>
+      )}
+      <ul className="job-list">
+        {jobs.map((job) => (
+          <li key={job.id} className={`job-item job-${job.status}`}>
+            <span className="job-status">
+              [{statusLabels[job.status]}
+              {formatProgress(job)}]
+            </span>
+            <span className="job-prompt">
+              {job.params.prompt || `(${job.params.mode})`}
+              {job.error && <span className="job-error">{job.error}</span>}
+            </span>
+            <span className="job-elapsed">{formatElapsed(job, now)}</span>
+            <span className="job-actions">
+              {job.status === JobStatus.DONE && (
+                <>
+                  <button onClick={() => onPlay(job)}>Play</button>
+                  <button onClick={() => onDownload(job)}>Save</button>
+                </>
+              )}
+              {isJobFinished(job) ? (
+                <button onClick={() => onRemove(job)}>Remove</button>
+              ) : (
+                <button onClick={() => onCancel(job)}>Cancel</button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="video-actions">
+        <button onClick={onClose}>Back</button>
+      </div>
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -3,55 +3,135 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
+import {GenerationPhase, GenerationProgress} from '../types';
 
-const loadingMessages = [
-  "Warming up the digital director...",
-  "Gathering pixels and photons...",
-  "Storyboarding your vision...",
-  "Consulting with the AI muse...",
-  "Rendering the first scene...",
-  "Applying cinematic lighting...",
-  "This can take a few minutes, hang tight!",
-  "Adding a touch of movie magic...",
-  "Composing the final cut...",
-  "Polishing the masterpiece...",
-  "Teaching the AI to say 'I'll be back'...",
-  "Checking for digital dust bunnies...",
-  "Calibrating the irony sensors...",
-  "Untangling the timelines...",
-  "Enhancing to ludicrous speed...",
-  "Don't worry, the pixels are friendly.",
-  "Harvesting nano banana stems...",
-  "Praying to the Gemini star...",
-  "Starting a draft for your oscar speech..."
-];
+const phaseMessages: Record<GenerationPhase, string> = {
+  [GenerationPhase.SUBMITTING]: 'Submitting request to Veo...',
+  [GenerationPhase.SUBMITTED]: 'Request accepted, waiting for the first frames...',
+  [GenerationPhase.POLLING]: 'Rendering on the server...',
+  [GenerationPhase.OPERATION_DONE]: 'Render finished, preparing download...',
+  [GenerationPhase.DOWNLOADING]: 'Downloading video...',
+  [GenerationPhase.BLOB_READY]: 'Video ready, loading player...',
+  [GenerationPhase.RETRYING]: 'Temporary error, retrying...',
+};
 
 const spinnerFrames = ['[    ]', '[=   ]', '[==  ]', '[=== ]', '[ ===]', '[  ==]', '[   =]'];
 
-const LoadingIndicator: React.FC = () => {
-  const [messageIndex, setMessageIndex] = useState(0);
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${minutes}:${seconds}`;
+};
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const renderBar = (fraction: number, width = 20) => {
+  const filled = Math.round(Math.min(1, Math.max(0, fraction)) * width);
+  return `[${'#'.repeat(filled)}${'.'.repeat(width - filled)}]`;
+};
+
+interface LoadingIndicatorProps {
+  progress?: GenerationProgress | null;
+  // Typical duration of a job with the same model and resolution, if known.
+  estimatedDurationMs?: number | null;
+  onCancel?: () => void;
+}
+
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
+  progress,
+  estimatedDurationMs,
+  onCancel,
+}) => {
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
   const [spinnerIndex, setSpinnerIndex] = useState(0);
 
   useEffect(() => {
-    const messageIntervalId = setInterval(() => {
-      setMessageIndex((prevIndex) => (prevIndex + 1) % loadingMessages.length);
-    }, 3000); // Change message every 3 seconds
+    const clockIntervalId = setInterval(() => setNow(Date.now()), 1000);
 
     const spinnerIntervalId = setInterval(() => {
       setSpinnerIndex((prevIndex) => (prevIndex + 1) % spinnerFrames.length);
     }, 100);
 
     return () => {
-      clearInterval(messageIntervalId);
+      clearInterval(clockIntervalId);
       clearInterval(spinnerIntervalId);
     };
   }, []);
 
+  const elapsedMs = now - startedAt;
+  const phase = progress?.phase ?? GenerationPhase.SUBMITTING;
+  const isDownloading =
+    phase === GenerationPhase.DOWNLOADING || phase === GenerationPhase.BLOB_READY;
+  const downloadFraction =
+    progress?.bytesTotal && progress.bytesReceived !== undefined
+      ? progress.bytesReceived / progress.bytesTotal
+      : null;
+
+  let remainingText: string;
+  if (isDownloading) {
+    remainingText = 'almost there';
+  } else if (estimatedDurationMs) {
+    const remainingMs = estimatedDurationMs - elapsedMs;
+    remainingText =
+      remainingMs > 0
+        ? `~${formatDuration(remainingMs)}`
+        : 'any moment now';
+  } else {
+    remainingText = 'unknown (first run)';
+  }
+
   return (
     <div className="loading-indicator">
       <div className="spinner-text" aria-hidden="true">{spinnerFrames[spinnerIndex]}</div>
       <h2>GENERATING VIDEO...</h2>
-      <p>{loadingMessages[messageIndex]}</p>
+      <p>{phaseMessages[phase]}</p>
+      <dl className="loading-stats">
+        <dt>ELAPSED</dt>
+        <dd>{formatDuration(elapsedMs)}</dd>
+        <dt>REMAINING</dt>
+        <dd>{remainingText}</dd>
+        {phase === GenerationPhase.RETRYING && progress?.retry && (
+          <>
+            <dt>RETRY</dt>
+            <dd>
+              {progress.retry.step} {progress.retry.attempt + 1}/
+              {progress.retry.maxAttempts} in{' '}
+              {formatDuration(progress.retry.delayMs)} ({progress.retry.reason})
+            </dd>
+          </>
+        )}
+        {!!progress?.pollCount && (
+          <>
+            <dt>STATUS CHECKS</dt>
+            <dd>{progress.pollCount}</dd>
+          </>
+        )}
+        {isDownloading && (progress?.candidateCount ?? 1) > 1 && (
+          <>
+            <dt>CANDIDATE</dt>
+            <dd>
+              {(progress?.candidateIndex ?? 0) + 1}/{progress?.candidateCount}
+            </dd>
+          </>
+        )}
+        {isDownloading && progress?.bytesReceived !== undefined && (
+          <>
+            <dt>DOWNLOAD</dt>
+            <dd>
+              {downloadFraction !== null
+                ? `${renderBar(downloadFraction)} ${Math.round(downloadFraction * 100)}%`
+                : formatBytes(progress.bytesReceived)}
+            </dd>
+          </>
+        )}
+      </dl>
+      {onCancel && (
+        <div className="video-actions">
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      )}
     </div>
   );
 };
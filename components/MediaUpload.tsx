@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {
+  CropRect,
+  PreprocessTarget,
+  checkSourceImage,
+  inspectImage,
+  matchesAspectRatio,
+  preprocessImage,
+} from '../services/imageProcessing';
+import {FrameSlot, ImageFile, VideoFile} from '../types';
+import FrameScrubber from './FrameScrubber';
+import ImageCropDialog from './ImageCropDialog';
+
+const fileToBase64 = <T extends {file: File; base64: string}>(
+  file: File,
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const base64 = (reader.result as string).split(',')[1];
+      if (base64) {
+        resolve({file, base64} as T);
+      } else {
+        reject(new Error('Failed to read file as base64.'));
+      }
+    };
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+};
+export const fileToImageFile = (file: File): Promise<ImageFile> =>
+  fileToBase64<ImageFile>(file);
+export const fileToVideoFile = (file: File): Promise<VideoFile> =>
+  fileToBase64<VideoFile>(file);
+
+// With a `target`, picked images are cropped, downscaled and re-encoded
+// before `onSelect`; the crop dialog opens when the framing does not match.
+export const ImageUpload: React.FC<{
+  onSelect: (image: ImageFile) => void;
+  onRemove?: () => void;
+  image?: ImageFile | null;
+  label: React.ReactNode;
+  target?: PreprocessTarget;
+}> = ({onSelect, onRemove, image, label, target}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const processFile = async (file: File, crop?: CropRect) => {
+    if (!target) {
+      onSelect(await fileToImageFile(file));
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      onSelect(await preprocessImage(file, target, crop));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError(null);
+    if (file) {
+      try {
+        const sourceError = target ? checkSourceImage(file) : null;
+        if (sourceError) {
+          setError(sourceError);
+        } else if (
+          target?.aspectRatio &&
+          !matchesAspectRatio(await inspectImage(file), target.aspectRatio)
+        ) {
+          setPendingFile(file);
+        } else {
+          await processFile(file);
+        }
+      } catch (error) {
+        console.error('Error converting file:', error);
+        setError(error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (inputRef.current) {
+      inputRef.current.value = '';
+    }
+  };
+
+  const handleConfirmCrop = async (crop: CropRect) => {
+    const file = pendingFile;
+    setPendingFile(null);
+    if (!file) return;
+    try {
+      await processFile(file, crop);
+    } catch (error) {
+      console.error('Error converting file:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (image) {
+    return (
+      <div className="image-upload-preview">
+        <img
+          src={URL.createObjectURL(image.file)}
+          alt="preview"
+        />
+        <button
+          type="button"
+          onClick={onRemove}
+          className="remove-button"
+          aria-label="Remove image">
+          X
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="image-upload"
+        disabled={isProcessing}
+        title={error ?? undefined}>
+        <span>{isProcessing ? '[..]' : '[+]'}</span>
+        <span>{label}</span>
+        {error && <span className="image-upload-error">{error}</span>}
+        <input
+          type="file"
+          ref={inputRef}
+          onChange={handleFileChange}
+          accept="image/*,.heic,.heif"
+          style={{display: 'none'}}
+        />
+      </button>
+      {pendingFile && target?.aspectRatio && (
+        <ImageCropDialog
+          file={pendingFile}
+          aspectRatio={target.aspectRatio}
+          resolution={target.resolution}
+          onConfirm={handleConfirmCrop}
+          onCancel={() => setPendingFile(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export const VideoUpload: React.FC<{
+  onSelect: (video: VideoFile) => void;
+  onRemove?: () => void;
+  video?: VideoFile | null;
+  label: React.ReactNode;
+  disabled?: boolean;
+  // Enables grabbing frames from the preview.
+  onUseFrame?: (slot: FrameSlot, frame: ImageFile) => void;
+}> = ({onSelect, onRemove, video, label, disabled = false, onUseFrame}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  // Kept stable across renders so scrubbing is not reset by a reload.
+  const previewUrl = useMemo(
+    () => (video ? URL.createObjectURL(video.file) : null),
+    [video],
+  );
+
+  useEffect(
+    () => () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    },
+    [previewUrl],
+  );
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      try {
+        const videoFile = await fileToVideoFile(file);
+        onSelect(videoFile);
+      } catch (error) {
+        console.error('Error converting file:', error);
+      }
+    }
+  };
+
+  if (video) {
+    return (
+      <div className="video-upload-frames">
+        <div className="video-upload-preview">
+          <video
+            ref={previewRef}
+            src={previewUrl ?? undefined}
+            muted
+            loop
+          />
+          <button
+            type="button"
+            onClick={onRemove}
+            className="remove-button"
+            aria-label="Remove video"
+            disabled={disabled}>
+            X
+          </button>
+        </div>
+        {onUseFrame && (
+          <button type="button" onClick={() => setIsScrubbing((prev) => !prev)}>
+            {isScrubbing ? 'Hide Frames' : 'Frames'}
+          </button>
+        )}
+        {onUseFrame && isScrubbing && (
+          <FrameScrubber videoRef={previewRef} onUseFrame={onUseFrame} />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => inputRef.current?.click()}
+      className="video-upload"
+      disabled={disabled}>
+      <span>[+]</span>
+      <span>{label}</span>
+      <input
+        type="file"
+        ref={inputRef}
+        onChange={handleFileChange}
+        accept="video/*"
+        style={{display: 'none'}}
+        disabled={disabled}
+      />
+    </button>
+  );
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {diffWords} from '../services/promptAssistant';
+import {PromptRewrite} from '../types';
+
+interface PromptEnhancerProps {
+  original: string;
+  rewrites: PromptRewrite[];
+  isLoading: boolean;
+  error: string | null;
+  onAccept: (rewrite: PromptRewrite, useAudioAsMusic: boolean) => void;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const rewriteAspects: Array<[keyof PromptRewrite, string]> = [
+  ['subject', 'Subject'],
+  ['camera', 'Camera'],
+  ['lighting', 'Lighting'],
+  ['style', 'Style'],
+  ['audio', 'Audio'],
+];
+
+const PromptDiff: React.FC<{before: string; after: string}> = ({
+  before,
+  after,
+}) => (
+  <p className="prompt-diff">
+    {diffWords(before, after).map((part, index) => (
+      <React.Fragment key={index}>
+        {part.kind === 'added' && <ins>{part.text}</ins>}
+        {part.kind === 'removed' && <del>{part.text}</del>}
+        {part.kind === 'same' && <span>{part.text}</span>}{' '}
+      </React.Fragment>
+    ))}
+  </p>
+);
+
+const PromptEnhancer: React.FC<PromptEnhancerProps> = ({
+  original,
+  rewrites,
+  isLoading,
+  error,
+  onAccept,
+  onRetry,
+  onClose,
+}) => (
+  <div className="prompt-enhancer">
+    <div className="prompt-enhancer-header">
+      <h3>ENHANCE PROMPT</h3>
+      <button type="button" onClick={onClose} aria-label="Close enhancer">
+        X
+      </button>
+    </div>
+    {isLoading && (
+      <p className="prompt-enhancer-status">
+        <span className="spinner"></span> Asking Gemini for rewrites...
+      </p>
+    )}
+    {error && (
+      <div className="prompt-enhancer-status">
+        <p className="job-error">{error}</p>
+        <button type="button" onClick={onRetry}>
+          Try Again
+        </button>
+      </div>
+    )}
+    {!isLoading &&
+      rewrites.map((rewrite, index) => (
+        <div key={index} className="prompt-rewrite">
+          <h4>
+            [{index + 1}] {rewrite.label}
+          </h4>
+          <dl>
+            {rewriteAspects.map(([field, label]) => (
+              <React.Fragment key={field}>
+                <dt>{label}</dt>
+                <dd>{rewrite[field]}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          {original.trim() ? (
+            <PromptDiff before={original} after={rewrite.prompt} />
+          ) : (
+            <p className="prompt-diff">{rewrite.prompt}</p>
+          )}
+          <div className="job-actions">
+            <button type="button" onClick={() => onAccept(rewrite, false)}>
+              Accept
+            </button>
+            {rewrite.audio.trim() && (
+              <button type="button" onClick={() => onAccept(rewrite, true)}>
+                Accept + Music
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+  </div>
+);
+
+export default PromptEnhancer;
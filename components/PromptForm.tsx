@@ -4,12 +4,38 @@
 */
 import {Video} from '@google/genai';
 import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {emptyAudioDesign, formatAudioDesign} from '../services/audioDesign';
+import {
+  canExtendResult,
+  coerceToCapabilities,
+  getCapabilities,
+  getSupportedModels,
+  isFullLengthOnly,
+  validateParams,
+} from '../services/capabilities';
 import {generateVideoPrompt} from '../services/geminiService';
+import {routeFrameToParams} from '../services/frameExtraction';
+import {compareFrameSizes} from '../services/imageProcessing';
+import {estimateGenerationCost, formatUsd} from '../services/pricing';
+import {describeImage, enhancePrompt} from '../services/promptAssistant';
+import {MAX_SEED, isValidSeed, randomSeed, resolveSeed} from '../services/seed';
+import {
+  checkBudget,
+  getMonthSpend,
+  subscribeUsage,
+} from '../services/usageLedger';
+import AudioDesignPanel from './AudioDesignPanel';
+import {ImageUpload, VideoUpload} from './MediaUpload';
+import PromptEnhancer from './PromptEnhancer';
 import {
   AspectRatio,
+  AudioDesign,
+  FrameSlot,
   GenerateVideoParams,
   GenerationMode,
   ImageFile,
+  PersonGeneration,
+  PromptRewrite,
   Resolution,
   VeoModel,
   VideoFile,
@@ -20,27 +46,11 @@ const aspectRatioDisplayNames: Record<AspectRatio, string> = {
   [AspectRatio.PORTRAIT]: 'Portrait (9:16)',
 };
 
-const fileToBase64 = <T extends {file: File; base64: string}>(
-  file: File,
-): Promise<T> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      if (base64) {
-        resolve({file, base64} as T);
-      } else {
-        reject(new Error('Failed to read file as base64.'));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
+const personGenerationDisplayNames: Record<PersonGeneration, string> = {
+  [PersonGeneration.ALLOW_ALL]: 'Allow all people',
+  [PersonGeneration.ALLOW_ADULT]: 'Adults only',
+  [PersonGeneration.DONT_ALLOW]: 'No people',
 };
-const fileToImageFile = (file: File): Promise<ImageFile> =>
-  fileToBase64<ImageFile>(file);
-const fileToVideoFile = (file: File): Promise<VideoFile> =>
-  fileToBase64<VideoFile>(file);
 
 const CustomSelect: React.FC<{
   label: string;
@@ -66,126 +76,11 @@ const CustomSelect: React.FC<{
   </div>
 );
 
-const ImageUpload: React.FC<{
-  onSelect: (image: ImageFile) => void;
-  onRemove?: () => void;
-  image?: ImageFile | null;
-  label: React.ReactNode;
-}> = ({onSelect, onRemove, image, label}) => {
-  const inputRef = useRef<HTMLInputElement>(null);
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      try {
-        const imageFile = await fileToImageFile(file);
-        onSelect(imageFile);
-      } catch (error) {
-        console.error('Error converting file:', error);
-      }
-    }
-    if (inputRef.current) {
-      inputRef.current.value = '';
-    }
-  };
-
-  if (image) {
-    return (
-      <div className="image-upload-preview">
-        <img
-          src={URL.createObjectURL(image.file)}
-          alt="preview"
-        />
-        <button
-          type="button"
-          onClick={onRemove}
-          className="remove-button"
-          aria-label="Remove image">
-          X
-        </button>
-      </div>
-    );
-  }
-
-  return (
-    <button
-      type="button"
-      onClick={() => inputRef.current?.click()}
-      className="image-upload">
-      <span>[+]</span>
-      <span>{label}</span>
-      <input
-        type="file"
-        ref={inputRef}
-        onChange={handleFileChange}
-        accept="image/*"
-        style={{display: 'none'}}
-      />
-    </button>
-  );
-};
-
-const VideoUpload: React.FC<{
-  onSelect: (video: VideoFile) => void;
-  onRemove?: () => void;
-  video?: VideoFile | null;
-  label: React.ReactNode;
-  disabled?: boolean;
-}> = ({onSelect, onRemove, video, label, disabled = false}) => {
-  const inputRef = useRef<HTMLInputElement>(null);
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      try {
-        const videoFile = await fileToVideoFile(file);
-        onSelect(videoFile);
-      } catch (error) {
-        console.error('Error converting file:', error);
-      }
-    }
-  };
-
-  if (video) {
-    return (
-      <div className="video-upload-preview">
-        <video
-          src={URL.createObjectURL(video.file)}
-          muted
-          loop
-        />
-        <button
-          type="button"
-          onClick={onRemove}
-          className="remove-button"
-          aria-label="Remove video"
-          disabled={disabled}>
-          X
-        </button>
-      </div>
-    );
-  }
-
-  return (
-    <button
-      type="button"
-      onClick={() => inputRef.current?.click()}
-      className="video-upload"
-      disabled={disabled}>
-      <span>[+]</span>
-      <span>{label}</span>
-      <input
-        type="file"
-        ref={inputRef}
-        onChange={handleFileChange}
-        accept="video/*"
-        style={{display: 'none'}}
-        disabled={disabled}
-      />
-    </button>
-  );
-};
-
 interface PromptFormProps {
   onGenerate: (params: GenerateVideoParams) => void;
+  onQueue?: (params: GenerateVideoParams) => void;
+  // Called with the current settings whenever any of them change.
+  onChange?: (params: GenerateVideoParams) => void;
   initialValues?: GenerateVideoParams | null;
   lastVideoObject?: Video | null;
   lastVideoBlob?: Blob | null;
@@ -194,6 +89,8 @@ interface PromptFormProps {
 
 const PromptForm: React.FC<PromptFormProps> = ({
   onGenerate,
+  onQueue,
+  onChange,
   initialValues,
   lastVideoObject,
   lastVideoBlob,
@@ -237,42 +134,126 @@ const PromptForm: React.FC<PromptFormProps> = ({
   const [musicPrompt, setMusicPrompt] = useState(
     initialValues?.musicPrompt ?? '',
   );
+  const [audioDesign, setAudioDesign] = useState<AudioDesign>(
+    initialValues?.audioDesign ?? emptyAudioDesign(),
+  );
+  const [numberOfVideos, setNumberOfVideos] = useState(
+    initialValues?.numberOfVideos ?? 1,
+  );
+  const [negativePrompt, setNegativePrompt] = useState(
+    initialValues?.negativePrompt ?? '',
+  );
+  const [seed, setSeed] = useState<number | null>(initialValues?.seed ?? null);
+  const [lockSeed, setLockSeed] = useState(initialValues?.lockSeed ?? false);
+  // The seed rolled for the last render when the field was empty.
+  const [lastRolledSeed, setLastRolledSeed] = useState<number | null>(null);
+  const [durationSeconds, setDurationSeconds] = useState<number | undefined>(
+    initialValues?.durationSeconds,
+  );
+  const [personGeneration, setPersonGeneration] = useState<
+    PersonGeneration | undefined
+  >(initialValues?.personGeneration);
+  const [generateAudio, setGenerateAudio] = useState(
+    initialValues?.generateAudio ?? true,
+  );
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isModeSelectorOpen, setIsModeSelectorOpen] = useState(false);
   const [isGeneratingPrompt, setIsGeneratingPrompt] = useState(false);
+  const [isEnhancerOpen, setIsEnhancerOpen] = useState(false);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [enhanceError, setEnhanceError] = useState<string | null>(null);
+  const [rewrites, setRewrites] = useState<PromptRewrite[]>([]);
+  // The prompt the current rewrites were made from, for the diff.
+  const [enhancedFrom, setEnhancedFrom] = useState('');
+  const [isDescribingImage, setIsDescribingImage] = useState(false);
+  const [describeError, setDescribeError] = useState<string | null>(null);
+  const [monthSpendUsd, setMonthSpendUsd] = useState<number | null>(null);
+  const [frameSizeWarning, setFrameSizeWarning] = useState<string | null>(
+    null,
+  );
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const modeSelectorRef = useRef<HTMLDivElement>(null);
 
+  const applyValues = useCallback((values: GenerateVideoParams) => {
+    setPrompt(values.prompt ?? '');
+    setModel(values.model ?? VeoModel.VEO_FAST);
+    setAspectRatio(values.aspectRatio ?? AspectRatio.LANDSCAPE);
+    setResolution(values.resolution ?? Resolution.P720);
+    setGenerationMode(values.mode ?? GenerationMode.TEXT_TO_VIDEO);
+    setInputImage(values.inputImage ?? null);
+    setStartFrame(values.startFrame ?? null);
+    setEndFrame(values.endFrame ?? null);
+    setReferenceImages(values.referenceImages ?? []);
+    setStyleImage(values.styleImage ?? null);
+    setInputVideo(values.inputVideo ?? null);
+    setInputVideoObject(values.inputVideoObject ?? null);
+    setIsLooping(values.isLooping ?? false);
+    setMusicPrompt(values.musicPrompt ?? '');
+    setAudioDesign(values.audioDesign ?? emptyAudioDesign());
+    setNumberOfVideos(values.numberOfVideos ?? 1);
+    setNegativePrompt(values.negativePrompt ?? '');
+    setSeed(values.seed ?? null);
+    setLockSeed(values.lockSeed ?? false);
+    setDurationSeconds(values.durationSeconds);
+    setPersonGeneration(values.personGeneration);
+    setGenerateAudio(values.generateAudio ?? true);
+  }, []);
+
   useEffect(() => {
     if (initialValues) {
-      setPrompt(initialValues.prompt ?? '');
-      setModel(initialValues.model ?? VeoModel.VEO_FAST);
-      setAspectRatio(initialValues.aspectRatio ?? AspectRatio.LANDSCAPE);
-      setResolution(initialValues.resolution ?? Resolution.P720);
-      setGenerationMode(initialValues.mode ?? GenerationMode.TEXT_TO_VIDEO);
-      setInputImage(initialValues.inputImage ?? null);
-      setStartFrame(initialValues.startFrame ?? null);
-      setEndFrame(initialValues.endFrame ?? null);
-      setReferenceImages(initialValues.referenceImages ?? []);
-      setStyleImage(initialValues.styleImage ?? null);
-      setInputVideo(initialValues.inputVideo ?? null);
-      setInputVideoObject(initialValues.inputVideoObject ?? null);
-      setIsLooping(initialValues.isLooping ?? false);
-      setMusicPrompt(initialValues.musicPrompt ?? '');
+      applyValues(initialValues);
     }
-  }, [initialValues]);
+  }, [initialValues, applyValues]);
 
+  // Keeps model, resolution, aspect ratio, duration and person generation
+  // within what the mode allows.
   useEffect(() => {
-    if (generationMode === GenerationMode.REFERENCES_TO_VIDEO) {
-      setModel(VeoModel.VEO);
-      setAspectRatio(AspectRatio.LANDSCAPE);
-      setResolution(Resolution.P720);
-    } else if (generationMode === GenerationMode.EXTEND_VIDEO) {
-      setResolution(Resolution.P720);
-      setModel(VeoModel.VEO);
-    }
-  }, [generationMode]);
+    const coerced = coerceToCapabilities({
+      prompt: '',
+      mode: generationMode,
+      model,
+      aspectRatio,
+      resolution,
+      durationSeconds,
+      personGeneration,
+    });
+    setModel(coerced.model);
+    setAspectRatio(coerced.aspectRatio);
+    setResolution(coerced.resolution);
+    setDurationSeconds(coerced.durationSeconds);
+    setPersonGeneration(coerced.personGeneration);
+  }, [
+    generationMode,
+    model,
+    aspectRatio,
+    resolution,
+    durationSeconds,
+    personGeneration,
+  ]);
+
+  useEffect(() => {
+    const refresh = () =>
+      getMonthSpend()
+        .then(setMonthSpendUsd)
+        .catch((error) => console.error('Failed to load spend:', error));
+    refresh();
+    return subscribeUsage(refresh);
+  }, []);
+
+  useEffect(() => {
+    setFrameSizeWarning(null);
+    if (!startFrame || !endFrame || isLooping) return;
+    let isCurrent = true;
+    compareFrameSizes(startFrame, endFrame)
+      .then((warning) => {
+        if (isCurrent) setFrameSizeWarning(warning);
+      })
+      .catch((error) => console.error('Failed to compare frames:', error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [startFrame, endFrame, isLooping]);
 
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -307,26 +288,94 @@ const PromptForm: React.FC<PromptFormProps> = ({
     }
   };
 
-  const handleSubmit = useCallback(
-    (e: React.FormEvent) => {
-      e.preventDefault();
-      onGenerate({
-        prompt,
-        model,
-        aspectRatio,
-        resolution,
-        mode: generationMode,
-        inputImage,
-        startFrame,
-        endFrame,
-        referenceImages,
-        styleImage,
-        inputVideo,
-        inputVideoObject,
-        isLooping,
-        musicPrompt,
-      });
-    },
+  const attachedImages = (): ImageFile[] => {
+    switch (generationMode) {
+      case GenerationMode.IMAGE_TO_VIDEO:
+        return inputImage ? [inputImage] : [];
+      case GenerationMode.FRAMES_TO_VIDEO:
+        return [startFrame, endFrame].filter(
+          (frame): frame is ImageFile => frame !== null,
+        );
+      case GenerationMode.REFERENCES_TO_VIDEO:
+        return styleImage ? [...referenceImages, styleImage] : referenceImages;
+      default:
+        return [];
+    }
+  };
+
+  const canEnhance = prompt.trim() !== '' || attachedImages().length > 0;
+
+  const handleEnhance = async () => {
+    setIsEnhancerOpen(true);
+    setIsEnhancing(true);
+    setEnhanceError(null);
+    setRewrites([]);
+    setEnhancedFrom(prompt);
+    try {
+      setRewrites(await enhancePrompt(prompt, generationMode, attachedImages()));
+    } catch (error) {
+      setEnhanceError(
+        error instanceof Error ? error.message : 'Could not enhance the prompt.',
+      );
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handleAcceptRewrite = (
+    rewrite: PromptRewrite,
+    useAudioAsMusic: boolean,
+  ) => {
+    setPrompt(rewrite.prompt);
+    if (useAudioAsMusic) {
+      setMusicPrompt(rewrite.audio);
+    }
+    setIsEnhancerOpen(false);
+  };
+
+  const handleDescribeImage = async () => {
+    if (!inputImage) return;
+    setIsDescribingImage(true);
+    setDescribeError(null);
+    try {
+      setPrompt(await describeImage(inputImage));
+    } catch (error) {
+      setDescribeError(
+        error instanceof Error ? error.message : 'Could not describe the image.',
+      );
+    } finally {
+      setIsDescribingImage(false);
+    }
+  };
+
+  const collectParams = useCallback(
+    (): GenerateVideoParams => ({
+      prompt,
+      model,
+      aspectRatio,
+      resolution,
+      mode: generationMode,
+      inputImage,
+      startFrame,
+      endFrame,
+      referenceImages,
+      styleImage,
+      inputVideo,
+      inputVideoObject,
+      isLooping,
+      musicPrompt,
+      audioDesign,
+      numberOfVideos,
+      negativePrompt,
+      seed,
+      lockSeed,
+      durationSeconds,
+      personGeneration,
+      // Kept in state so it comes back when switching to a mode that has it.
+      generateAudio: getCapabilities(generationMode, model)?.supportsAudioToggle
+        ? generateAudio
+        : undefined,
+    }),
     [
       prompt,
       model,
@@ -340,12 +389,58 @@ const PromptForm: React.FC<PromptFormProps> = ({
       styleImage,
       inputVideo,
       inputVideoObject,
-      onGenerate,
       isLooping,
       musicPrompt,
+      audioDesign,
+      numberOfVideos,
+      negativePrompt,
+      seed,
+      lockSeed,
+      durationSeconds,
+      personGeneration,
+      generateAudio,
     ],
   );
 
+  useEffect(() => {
+    onChange?.(collectParams());
+  }, [collectParams, onChange]);
+
+  const handleUseFrame = (slot: FrameSlot, frame: ImageFile) =>
+    applyValues(routeFrameToParams(collectParams(), slot, frame));
+
+  // Uses the entered seed, or rolls one and shows it as the placeholder so
+  // the field stays empty and the next render rolls again.
+  const collectSubmitParams = useCallback(() => {
+    const params = collectParams();
+    const resolved = resolveSeed(params);
+    if (!isValidSeed(params.seed)) {
+      setLastRolledSeed(resolved.seed ?? null);
+    }
+    return resolved;
+  }, [collectParams]);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      onGenerate(collectSubmitParams());
+    },
+    [collectSubmitParams, onGenerate],
+  );
+
+  const handleSeedChange = (value: string) => {
+    const parsed = Number(value);
+    setSeed(value.trim() && isValidSeed(parsed) ? parsed : null);
+  };
+
+  // Locking an empty field keeps the seed of the last render.
+  const handleLockSeedChange = (isLocked: boolean) => {
+    if (isLocked && seed === null && lastRolledSeed !== null) {
+      setSeed(lastRolledSeed);
+    }
+    setLockSeed(isLocked);
+  };
+
   const handleSelectMode = (mode: GenerationMode) => {
     setGenerationMode(mode);
     setIsModeSelectorOpen(false);
@@ -359,10 +454,11 @@ const PromptForm: React.FC<PromptFormProps> = ({
     setInputVideoObject(null);
     setIsLooping(false);
     setMusicPrompt('');
+    setAudioDesign(emptyAudioDesign());
 
     if (mode === GenerationMode.EXTEND_VIDEO) {
-      setModel(VeoModel.VEO); // Extend requires the VEO model
-      if (lastVideoBlob && lastVideoObject && lastConfig) {
+      // Edited copies have no remote video and cannot be extended.
+      if (lastVideoBlob && lastVideoObject?.uri && lastConfig) {
         const file = new File([lastVideoBlob], 'last_video.mp4', {
           type: lastVideoBlob.type,
         });
@@ -388,6 +484,12 @@ const PromptForm: React.FC<PromptFormProps> = ({
     [GenerationMode.EXTEND_VIDEO]: 'C:\\> Describe what happens next (optional)...',
   }[generationMode];
 
+  const supportedModels = getSupportedModels(generationMode);
+  // Until the coercion effect runs the model may not support the mode yet.
+  const capabilities =
+    getCapabilities(generationMode, model) ??
+    getCapabilities(generationMode, supportedModels[0])!;
+
   const selectableModes = [
     GenerationMode.TEXT_TO_VIDEO,
     GenerationMode.IMAGE_TO_VIDEO,
@@ -415,10 +517,22 @@ const PromptForm: React.FC<PromptFormProps> = ({
         <div className="media-uploads">
           <ImageUpload
             label="Input Photo"
+            target={{aspectRatio, resolution}}
             image={inputImage}
             onSelect={setInputImage}
             onRemove={() => setInputImage(null)}
           />
+          {inputImage && (
+            <div className="describe-image">
+              <button
+                type="button"
+                onClick={handleDescribeImage}
+                disabled={isDescribingImage}>
+                {isDescribingImage ? 'Describing...' : 'Describe This Image'}
+              </button>
+              {describeError && <p className="job-error">{describeError}</p>}
+            </div>
+          )}
         </div>
       );
     }
@@ -427,6 +541,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
         <div className="media-uploads">
             <ImageUpload
               label="Start Frame"
+              target={{aspectRatio, resolution}}
               image={startFrame}
               onSelect={setStartFrame}
               onRemove={() => {
@@ -437,12 +552,13 @@ const PromptForm: React.FC<PromptFormProps> = ({
             {!isLooping && (
               <ImageUpload
                 label="End Frame"
+                target={{aspectRatio, resolution}}
                 image={endFrame}
                 onSelect={setEndFrame}
                 onRemove={() => setEndFrame(null)}
               />
             )}
-          {startFrame && !endFrame && (
+          {capabilities.supportsLooping && startFrame && !endFrame && (
             <div style={{width: '100%', textAlign: 'center', marginTop: '1rem'}}>
               <input
                 id="loop-video-checkbox"
@@ -458,6 +574,9 @@ const PromptForm: React.FC<PromptFormProps> = ({
               </label>
             </div>
           )}
+          {frameSizeWarning && (
+            <p className="frame-size-warning">{frameSizeWarning}</p>
+          )}
         </div>
       );
     }
@@ -475,9 +594,10 @@ const PromptForm: React.FC<PromptFormProps> = ({
               }
             />
           ))}
-          {referenceImages.length < 3 && (
+          {referenceImages.length < capabilities.maxReferenceImages && (
             <ImageUpload
               label="Add Reference"
+              target={{resolution}}
               onSelect={(img) => setReferenceImages((imgs) => [...imgs, img])}
             />
           )}
@@ -496,6 +616,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
               setInputVideoObject(null);
             }}
             disabled={true}
+            onUseFrame={handleUseFrame}
           />
         </div>
       );
@@ -503,51 +624,15 @@ const PromptForm: React.FC<PromptFormProps> = ({
     return null;
   };
 
-  const isRefMode = generationMode === GenerationMode.REFERENCES_TO_VIDEO;
-  const isExtendMode = generationMode === GenerationMode.EXTEND_VIDEO;
-
-  let isSubmitDisabled = false;
-  let tooltipText = '';
-
-  switch (generationMode) {
-    case GenerationMode.TEXT_TO_VIDEO:
-      isSubmitDisabled = !prompt.trim() && !musicPrompt.trim();
-      if (isSubmitDisabled) {
-        tooltipText = 'Please enter a prompt.';
-      }
-      break;
-    case GenerationMode.IMAGE_TO_VIDEO:
-      isSubmitDisabled = !inputImage;
-      if (isSubmitDisabled) {
-        tooltipText = 'An input image is required.';
-      }
-      break;
-    case GenerationMode.FRAMES_TO_VIDEO:
-      isSubmitDisabled = !startFrame;
-      if (isSubmitDisabled) {
-        tooltipText = 'A start frame is required.';
-      }
-      break;
-    case GenerationMode.REFERENCES_TO_VIDEO:
-      const hasNoRefs = referenceImages.length === 0;
-      const hasNoPrompt = !prompt.trim() && !musicPrompt.trim();
-      isSubmitDisabled = hasNoRefs || hasNoPrompt;
-      if (hasNoRefs && hasNoPrompt) {
-        tooltipText = 'Please add reference image(s) and enter a prompt.';
-      } else if (hasNoRefs) {
-        tooltipText = 'At least one reference image is required.';
-      } else if (hasNoPrompt) {
-        tooltipText = 'Please enter a prompt.';
-      }
-      break;
-    case GenerationMode.EXTEND_VIDEO:
-      isSubmitDisabled = !inputVideoObject;
-      if (isSubmitDisabled) {
-        tooltipText =
-          'An input video from a previous generation is required to extend.';
-      }
-      break;
-  }
+  const currentParams = collectParams();
+  const issues = validateParams(currentParams);
+  const estimatedCost = estimateGenerationCost(currentParams);
+  const budget =
+    monthSpendUsd === null ? null : checkBudget(monthSpendUsd, currentParams);
+  const isSubmitDisabled = issues.length > 0 || !!budget?.blocked;
+  const tooltipText = [...issues.map((issue) => issue.message), budget?.blocked]
+    .filter(Boolean)
+    .join(' ');
 
   return (
     <div style={{position: 'relative', width: '100%'}}>
@@ -558,8 +643,8 @@ const PromptForm: React.FC<PromptFormProps> = ({
               label="Model"
               value={model}
               onChange={(e) => setModel(e.target.value as VeoModel)}
-              disabled={isRefMode || isExtendMode}>
-              {Object.values(VeoModel).map((modelValue) => (
+              disabled={supportedModels.length < 2}>
+              {supportedModels.map((modelValue) => (
                 <option key={modelValue} value={modelValue}>
                   {modelValue}
                 </option>
@@ -569,9 +654,15 @@ const PromptForm: React.FC<PromptFormProps> = ({
               label="Aspect Ratio"
               value={aspectRatio}
               onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
-              disabled={isRefMode || isExtendMode}>
+              disabled={
+                capabilities.aspectRatioFromInput ||
+                capabilities.aspectRatios.length < 2
+              }>
               {Object.entries(aspectRatioDisplayNames).map(([key, name]) => (
-                <option key={key} value={key}>
+                <option
+                  key={key}
+                  value={key}
+                  disabled={!capabilities.aspectRatios.includes(key as AspectRatio)}>
                   {name}
                 </option>
               ))}
@@ -581,36 +672,148 @@ const PromptForm: React.FC<PromptFormProps> = ({
                 label="Resolution"
                 value={resolution}
                 onChange={(e) => setResolution(e.target.value as Resolution)}
-                disabled={isRefMode || isExtendMode}>
-                <option value={Resolution.P720}>720p</option>
-                <option value={Resolution.P1080}>1080p</option>
+                disabled={capabilities.resolutions.length < 2}>
+                {capabilities.resolutions.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
               </CustomSelect>
-              {resolution === Resolution.P1080 && (
+              {!canExtendResult(currentParams) && (
                 <p style={{fontSize: '14px', color: '#ffcc00', marginTop: '4px'}}>
                   1080p videos cannot be extended.
                 </p>
               )}
             </div>
+            <CustomSelect
+              label="Candidates"
+              value={String(numberOfVideos)}
+              onChange={(e) => setNumberOfVideos(Number(e.target.value))}>
+              {[1, 2, 3, 4].map((count) => (
+                <option key={count} value={count}>
+                  {count === 1 ? '1 video' : `${count} to compare`}
+                </option>
+              ))}
+            </CustomSelect>
+            {capabilities.durations.length > 0 && (
+              <CustomSelect
+                label="Duration"
+                value={String(durationSeconds ?? '')}
+                onChange={(e) => setDurationSeconds(Number(e.target.value))}
+                disabled={capabilities.durations.length < 2}>
+                {capabilities.durations.map((seconds) => (
+                  <option
+                    key={seconds}
+                    value={seconds}
+                    disabled={
+                      isFullLengthOnly(resolution) &&
+                      seconds !== Math.max(...capabilities.durations)
+                    }>
+                    {seconds} seconds
+                  </option>
+                ))}
+              </CustomSelect>
+            )}
+            {capabilities.personGeneration.length > 0 && (
+              <CustomSelect
+                label="People"
+                value={personGeneration ?? ''}
+                onChange={(e) =>
+                  setPersonGeneration(e.target.value as PersonGeneration)
+                }
+                disabled={capabilities.personGeneration.length < 2}>
+                {capabilities.personGeneration.map((value) => (
+                  <option key={value} value={value}>
+                    {personGenerationDisplayNames[value]}
+                  </option>
+                ))}
+              </CustomSelect>
+            )}
           </div>
-          <div className="music-prompt-container">
-            <label htmlFor="music-prompt-input">
-              Music Prompt (Experimental)
-            </label>
-            <input
-              id="music-prompt-input"
-              type="text"
-              className="text-input"
-              value={musicPrompt}
-              onChange={(e) => setMusicPrompt(e.target.value)}
-              placeholder="e.g., 'upbeat synthwave track'"
-            />
-            <p>
-              Describe background music to be generated with the video. This is
-              an experimental feature and may not produce audio.
-            </p>
-          </div>
+          {(capabilities.supportsNegativePrompt ||
+            capabilities.supportsSeed) && (
+            <div className="generation-config">
+              {capabilities.supportsNegativePrompt && (
+                <div>
+                  <label htmlFor="negative-prompt-input">Negative Prompt</label>
+                  <input
+                    id="negative-prompt-input"
+                    type="text"
+                    className="text-input"
+                    value={negativePrompt}
+                    onChange={(e) => setNegativePrompt(e.target.value)}
+                    placeholder="e.g., 'text overlays, blurry, low quality'"
+                  />
+                </div>
+              )}
+              {capabilities.supportsSeed && (
+                <div>
+                  <label htmlFor="seed-input">Seed</label>
+                  <div className="seed-row">
+                    <input
+                      id="seed-input"
+                      type="number"
+                      className="text-input"
+                      min={0}
+                      max={MAX_SEED}
+                      step={1}
+                      value={seed ?? ''}
+                      onChange={(e) => handleSeedChange(e.target.value)}
+                      placeholder={
+                        lastRolledSeed === null
+                          ? 'Random'
+                          : `Random (last: ${lastRolledSeed})`
+                      }
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setSeed(randomSeed())}
+                      aria-label="Roll a new seed">
+                      Roll
+                    </button>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={lockSeed}
+                        onChange={(e) => handleLockSeedChange(e.target.checked)}
+                      />{' '}
+                      Lock
+                    </label>
+                  </div>
+                  <p>
+                    {lockSeed
+                      ? 'Renders and retries reuse this seed to reproduce a result.'
+                      : seed !== null
+                        ? 'Renders use this seed; retries roll a new one.'
+                        : 'Each render and retry rolls a new seed.'}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+          <AudioDesignPanel
+            design={audioDesign}
+            musicPrompt={musicPrompt}
+            canToggleAudio={capabilities.supportsAudioToggle}
+            isAudioOff={capabilities.supportsAudioToggle && !generateAudio}
+            preview={formatAudioDesign(currentParams)}
+            onDesignChange={setAudioDesign}
+            onMusicPromptChange={setMusicPrompt}
+            onAudioOffChange={(isAudioOff) => setGenerateAudio(!isAudioOff)}
+          />
         </div>
       )}
+      {isEnhancerOpen && (
+        <PromptEnhancer
+          original={enhancedFrom}
+          rewrites={rewrites}
+          isLoading={isEnhancing}
+          error={enhanceError}
+          onAccept={handleAcceptRewrite}
+          onRetry={handleEnhance}
+          onClose={() => setIsEnhancerOpen(false)}
+        />
+      )}
       <form onSubmit={handleSubmit} className="prompt-form">
         {renderMediaUploads()}
         <div className="prompt-input-wrapper">
@@ -657,6 +860,16 @@ const PromptForm: React.FC<PromptFormProps> = ({
                 </button>
                 <span className="tooltip">Inspire Me</span>
             </div>
+            <div className="tooltip-wrapper">
+                <button
+                  type="button"
+                  onClick={handleEnhance}
+                  disabled={isEnhancing || !canEnhance}
+                  aria-label="Enhance prompt">
+                  {isEnhancing ? <div className="spinner"></div> : 'Enhance'}
+                </button>
+                <span className="tooltip">Suggest Rewrites</span>
+            </div>
             <div className="tooltip-wrapper">
                 <button
                   type="button"
@@ -666,6 +879,18 @@ const PromptForm: React.FC<PromptFormProps> = ({
                 </button>
                 <span className="tooltip">Settings</span>
             </div>
+            {onQueue && (
+              <div className="tooltip-wrapper">
+                <button
+                  type="button"
+                  onClick={() => onQueue(collectSubmitParams())}
+                  aria-label="Add to render queue"
+                  disabled={isSubmitDisabled}>
+                  +Q
+                </button>
+                <span className="tooltip">Add to Queue</span>
+              </div>
+            )}
             <div className="tooltip-wrapper">
               <button
                 type="submit"
@@ -679,6 +904,14 @@ const PromptForm: React.FC<PromptFormProps> = ({
             </div>
           </div>
         </div>
+        <p className="cost-estimate">
+          Estimated cost: {formatUsd(estimatedCost)}
+          {monthSpendUsd !== null &&
+            ` · spent this month: ${formatUsd(monthSpendUsd)}`}
+        </p>
+        {budget?.warning && !budget.blocked && (
+          <p className="cost-estimate budget-warning">{budget.warning}</p>
+        )}
         <p style={{ fontSize: '14px', textAlign: 'center', marginTop: '8px', opacity: 0.7 }}>
           Veo is a paid-only model. You will be charged on your Cloud project. See{' '}
           <a
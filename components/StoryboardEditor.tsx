@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {
+  ShotPatch,
+  getTimelineShots,
+  isTakeStart,
+} from '../services/storyboard';
+import {
+  AspectRatio,
+  GenerationPhase,
+  ShotStatus,
+  Storyboard,
+  StoryboardShot,
+} from '../types';
+import {ImageUpload} from './MediaUpload';
+
+interface StoryboardEditorProps {
+  storyboard: Storyboard;
+  onAddShot: () => void;
+  onUpdateShot: (id: string, patch: ShotPatch) => void;
+  onRemoveShot: (id: string) => void;
+  onMoveShot: (id: string, offset: number) => void;
+  onAspectRatioChange: (aspectRatio: AspectRatio) => void;
+  onRun: () => void;
+  onReroll: (id: string) => void;
+  onCancel: () => void;
+  onOpenShot: (shot: StoryboardShot, index: number) => void;
+  onExportSequence: () => void;
+  onClose: () => void;
+}
+
+const statusLabels: Record<ShotStatus, string> = {
+  [ShotStatus.PENDING]: 'PENDING',
+  [ShotStatus.RUNNING]: 'RENDERING',
+  [ShotStatus.DONE]: 'DONE',
+  [ShotStatus.FAILED]: 'FAILED',
+};
+
+const formatShotStatus = (shot: StoryboardShot) => {
+  const {progress} = shot;
+  if (shot.status !== ShotStatus.RUNNING || !progress) {
+    return statusLabels[shot.status];
+  }
+  if (progress.phase === GenerationPhase.RETRYING && progress.retry) {
+    return `RETRY ${progress.retry.attempt + 1}/${progress.retry.maxAttempts}`;
+  }
+  if (progress.phase === GenerationPhase.DOWNLOADING && progress.bytesTotal) {
+    const percent = Math.round(
+      ((progress.bytesReceived ?? 0) / progress.bytesTotal) * 100,
+    );
+    return `DOWNLOADING ${percent}%`;
+  }
+  return `RENDERING ${Math.floor(progress.elapsedMs / 1000)}s`;
+};
+
+// Plays the finished takes back to back in a single player.
+const StoryboardTimeline: React.FC<{shots: StoryboardShot[]}> = ({shots}) => {
+  const timeline = getTimelineShots(shots);
+  const [position, setPosition] = useState(0);
+  const current = timeline[Math.min(position, timeline.length - 1)];
+
+  useEffect(() => {
+    setPosition(0);
+  }, [timeline.length]);
+
+  if (!current?.result) {
+    return <p>Finished shots will appear here as one sequence.</p>;
+  }
+
+  const handleEnded = () => {
+    if (position < timeline.length - 1) {
+      setPosition(position + 1);
+    }
+  };
+
+  return (
+    <div className="storyboard-timeline">
+      <video
+        key={current.id}
+        src={current.result.objectUrl}
+        controls
+        autoPlay={position > 0}
+        onEnded={handleEnded}
+      />
+      <ol className="storyboard-timeline-strip">
+        {timeline.map((shot, index) => (
+          <li key={shot.id}>
+            <button
+              className={index === position ? 'active' : undefined}
+              onClick={() => setPosition(index)}>
+              TAKE {index + 1}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+const StoryboardEditor: React.FC<StoryboardEditorProps> = ({
+  storyboard,
+  onAddShot,
+  onUpdateShot,
+  onRemoveShot,
+  onMoveShot,
+  onAspectRatioChange,
+  onRun,
+  onReroll,
+  onCancel,
+  onOpenShot,
+  onExportSequence,
+  onClose,
+}) => {
+  const {shots, isRunning} = storyboard;
+  const hasPendingShots = shots.some((shot) => shot.status !== ShotStatus.DONE);
+
+  return (
+    <div className="storyboard">
+      <h2>STORYBOARD</h2>
+      <p className="storyboard-hint">
+        Each shot extends the one before it. Add a start frame to begin a new
+        take instead. Shots render with Veo 3.1 at 720p, which Extend requires.
+      </p>
+      <div className="storyboard-toolbar">
+        <label htmlFor="storyboard-aspect">Aspect ratio</label>
+        <div className="custom-select">
+          <select
+            id="storyboard-aspect"
+            value={storyboard.aspectRatio}
+            disabled={isRunning}
+            onChange={(e) =>
+              onAspectRatioChange(e.target.value as AspectRatio)
+            }>
+            {Object.values(AspectRatio).map((ratio) => (
+              <option key={ratio} value={ratio}>
+                {ratio}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button onClick={onAddShot} disabled={isRunning}>
+          Add Shot
+        </button>
+        {isRunning ? (
+          <button onClick={onCancel}>Cancel</button>
+        ) : (
+          <button
+            onClick={onRun}
+            disabled={
+              !hasPendingShots || shots.some((shot) => !shot.prompt.trim())
+            }>
+            Render Storyboard
+          </button>
+        )}
+      </div>
+      <ol className="storyboard-shots">
+        {shots.map((shot, index) => (
+          <li key={shot.id} className={`storyboard-shot shot-${shot.status}`}>
+            <div className="storyboard-shot-header">
+              <span>
+                SHOT {index + 1} ·{' '}
+                {isTakeStart(shots, index) ? 'NEW TAKE' : 'EXTEND'}
+              </span>
+              <span className="storyboard-shot-status">
+                [{formatShotStatus(shot)}]
+              </span>
+            </div>
+            <textarea
+              value={shot.prompt}
+              placeholder="Describe this shot..."
+              rows={2}
+              disabled={isRunning}
+              onChange={(e) => onUpdateShot(shot.id, {prompt: e.target.value})}
+            />
+            <input
+              type="text"
+              value={shot.musicPrompt}
+              placeholder="Music / audio for this shot (optional)"
+              disabled={isRunning}
+              onChange={(e) =>
+                onUpdateShot(shot.id, {musicPrompt: e.target.value})
+              }
+            />
+            <div className="storyboard-shot-body">
+              <ImageUpload
+                label="Start Frame"
+                image={shot.startFrame}
+                onSelect={(startFrame) =>
+                  !isRunning && onUpdateShot(shot.id, {startFrame})
+                }
+                onRemove={() =>
+                  !isRunning && onUpdateShot(shot.id, {startFrame: null})
+                }
+              />
+              {shot.result && (
+                <video src={shot.result.objectUrl} muted loop controls />
+              )}
+            </div>
+            {shot.error && <p className="job-error">{shot.error}</p>}
+            <div className="storyboard-shot-actions">
+              <button
+                onClick={() => onMoveShot(shot.id, -1)}
+                disabled={isRunning || index === 0}
+                aria-label="Move shot up">
+                ↑
+              </button>
+              <button
+                onClick={() => onMoveShot(shot.id, 1)}
+                disabled={isRunning || index === shots.length - 1}
+                aria-label="Move shot down">
+                ↓
+              </button>
+              {(shot.status === ShotStatus.DONE ||
+                shot.status === ShotStatus.FAILED) && (
+                <button
+                  onClick={() => onReroll(shot.id)}
+                  disabled={isRunning}>
+                  Re-roll
+                </button>
+              )}
+              {shot.status === ShotStatus.DONE && (
+                <button onClick={() => onOpenShot(shot, index)}>Open</button>
+              )}
+              <button
+                onClick={() => onRemoveShot(shot.id)}
+                disabled={isRunning || shots.length <= 1}>
+                Remove
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <h3>&gt; TIMELINE</h3>
+      <StoryboardTimeline shots={shots} />
+      <div className="video-actions">
+        <button
+          onClick={onExportSequence}
+          disabled={isRunning || getTimelineShots(shots).length === 0}>
+          Export Sequence
+        </button>
+        <button onClick={onClose}>Back</button>
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardEditor;
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {formatUsd} from '../services/pricing';
+import {
+  MAX_SWEEP_CELLS,
+  countSweepCells,
+  estimateSweep,
+  expandSweep,
+  formatSweepLabels,
+} from '../services/sweep';
+import {extractTemplateVariables} from '../services/templateLibrary';
+import {
+  AspectRatio,
+  GenerationJob,
+  JobStatus,
+  Resolution,
+  Sweep,
+  SweepSpec,
+  VeoModel,
+} from '../types';
+
+interface SweepPanelProps {
+  sweep: Sweep | null;
+  jobs: GenerationJob[];
+  concurrency: number;
+  onStart: (spec: SweepSpec) => void;
+  onNewSweep: () => void;
+  onPlay: (job: GenerationJob) => void;
+  onDownload: (job: GenerationJob) => void;
+  onClose: () => void;
+}
+
+const splitLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const formatMinutes = (ms: number) => `~${Math.max(1, Math.round(ms / 60000))} min`;
+
+const ValueToggles = <T extends string>({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: T[];
+  selected: T[];
+  onChange: (values: T[]) => void;
+}) => (
+  <fieldset className="sweep-axis">
+    <legend>{label}</legend>
+    {options.map((option) => (
+      <label key={option}>
+        <input
+          type="checkbox"
+          checked={selected.includes(option)}
+          onChange={(e) =>
+            onChange(
+              e.target.checked
+                ? options.filter((o) => o === option || selected.includes(o))
+                : selected.filter((o) => o !== option),
+            )
+          }
+        />{' '}
+        {option}
+      </label>
+    ))}
+  </fieldset>
+);
+
+const SweepBuilder: React.FC<{
+  concurrency: number;
+  onStart: (spec: SweepSpec) => void;
+}> = ({concurrency, onStart}) => {
+  const [prompt, setPrompt] = useState('');
+  const [variableText, setVariableText] = useState<Record<string, string>>({});
+  const [models, setModels] = useState<VeoModel[]>([VeoModel.VEO_FAST]);
+  const [aspectRatios, setAspectRatios] = useState<AspectRatio[]>([
+    AspectRatio.LANDSCAPE,
+  ]);
+  const [resolutions, setResolutions] = useState<Resolution[]>([
+    Resolution.P720,
+  ]);
+  const [musicText, setMusicText] = useState('');
+
+  const variables = extractTemplateVariables(prompt);
+  const spec: SweepSpec = {
+    prompt,
+    variableValues: Object.fromEntries(
+      variables.map((name) => [name, splitLines(variableText[name] ?? '')]),
+    ),
+    models,
+    aspectRatios,
+    resolutions,
+    musicPrompts: splitLines(musicText),
+  };
+  const count = countSweepCells(spec);
+  const isTooLarge = count > MAX_SWEEP_CELLS;
+  const preview = isTooLarge || count === 0 ? null : expandSweep(spec);
+  const estimate = preview ? estimateSweep(preview.cells, concurrency) : null;
+
+  return (
+    <div className="sweep-builder">
+      <label className="template-field">
+        Prompt (use {'{variable}'} placeholders for prompt fragments)
+        <textarea
+          value={prompt}
+          rows={2}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="A {animal} exploring a {place}, cinematic"
+        />
+      </label>
+      {variables.map((name) => (
+        <label key={name} className="template-field">
+          {`{${name}}`} values, one per line
+          <textarea
+            value={variableText[name] ?? ''}
+            rows={3}
+            onChange={(e) =>
+              setVariableText((current) => ({
+                ...current,
+                [name]: e.target.value,
+              }))
+            }
+          />
+        </label>
+      ))}
+      <div className="sweep-axes">
+        <ValueToggles
+          label="Model"
+          options={Object.values(VeoModel)}
+          selected={models}
+          onChange={setModels}
+        />
+        <ValueToggles
+          label="Aspect Ratio"
+          options={Object.values(AspectRatio)}
+          selected={aspectRatios}
+          onChange={setAspectRatios}
+        />
+        <ValueToggles
+          label="Resolution"
+          options={Object.values(Resolution)}
+          selected={resolutions}
+          onChange={setResolutions}
+        />
+      </div>
+      <label className="template-field">
+        Music prompts, one per line (optional)
+        <textarea
+          value={musicText}
+          rows={2}
+          onChange={(e) => setMusicText(e.target.value)}
+        />
+      </label>
+
+      <div className="sweep-preview">
+        <p>
+          {count} combination{count === 1 ? '' : 's'}
+          {estimate &&
+            ` · ${formatUsd(estimate.costUsd)} · ${formatMinutes(estimate.durationMs)} at ${concurrency} parallel`}
+        </p>
+        {isTooLarge && (
+          <p className="job-error">
+            Sweeps are limited to {MAX_SWEEP_CELLS} renders. Remove some values.
+          </p>
+        )}
+        {preview && preview.cells.length > 1 && (
+          <ol>
+            {preview.cells.map((cell, index) => (
+              <li key={index}>{formatSweepLabels(cell.labels)}</li>
+            ))}
+          </ol>
+        )}
+      </div>
+      <div className="video-actions">
+        <button
+          onClick={() => onStart(spec)}
+          disabled={!preview || !prompt.trim()}>
+          Queue {count} Render{count === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const SweepPanel: React.FC<SweepPanelProps> = ({
+  sweep,
+  jobs,
+  concurrency,
+  onStart,
+  onNewSweep,
+  onPlay,
+  onDownload,
+  onClose,
+}) => {
+  const jobsById = new Map<string, GenerationJob>(
+    jobs.map((job) => [job.id, job]),
+  );
+
+  return (
+    <div className="sweep-panel">
+      <h2>PARAMETER SWEEP</h2>
+      {sweep ? (
+        <>
+          <div
+            className="sweep-grid"
+            style={{gridTemplateColumns: `repeat(${sweep.columns}, 1fr)`}}>
+            {sweep.cells.map((cell, index) => {
+              const job = cell.jobId ? jobsById.get(cell.jobId) : undefined;
+              return (
+                <div key={cell.jobId ?? index} className="sweep-cell">
+                  <div className="sweep-cell-labels">
+                    {cell.labels.map(({axis, value}) => (
+                      <span key={axis}>
+                        {axis}: <strong>{value}</strong>
+                      </span>
+                    ))}
+                  </div>
+                  {job?.result ? (
+                    <video src={job.result.objectUrl} muted loop autoPlay />
+                  ) : (
+                    <div className="sweep-cell-status">
+                      [{job ? job.status.toUpperCase() : 'REMOVED'}]
+                      {job?.error && (
+                        <span className="job-error">{job.error}</span>
+                      )}
+                    </div>
+                  )}
+                  {job?.status === JobStatus.DONE && (
+                    <div className="job-actions">
+                      <button onClick={() => onPlay(job)}>Open</button>
+                      <button onClick={() => onDownload(job)}>Save</button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="video-actions">
+            <button onClick={onNewSweep}>New Sweep</button>
+            <button onClick={onClose}>Back</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <SweepBuilder concurrency={concurrency} onStart={onStart} />
+          <div className="video-actions">
+            <button onClick={onClose}>Back</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SweepPanel;
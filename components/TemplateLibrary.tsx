@@ -0,0 +1,350 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo, useRef, useState} from 'react';
+import {
+  deleteTemplate,
+  exportTemplates,
+  extractTemplateVariables,
+  fillTemplate,
+  importTemplates,
+  listTemplates,
+  parseTags,
+  parseTemplateFile,
+  saveTemplate,
+  searchTemplates,
+} from '../services/templateLibrary';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  PromptTemplate,
+  Resolution,
+  TemplateDefaults,
+  VeoModel,
+} from '../types';
+
+interface TemplateLibraryProps {
+  onApply: (values: Partial<GenerateVideoParams> & {prompt: string}) => void;
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  prompt: string;
+  tags: string;
+  defaults: TemplateDefaults;
+}
+
+const emptyDraft: TemplateDraft = {name: '', prompt: '', tags: '', defaults: {}};
+
+const templateModes = Object.values(GenerationMode).filter(
+  (mode) => mode !== GenerationMode.EXTEND_VIDEO,
+);
+
+const DefaultSelect = <T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: T | undefined;
+  options: T[];
+  onChange: (value: T | undefined) => void;
+}) => (
+  <label className="template-field">
+    {label}
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange((e.target.value || undefined) as T | undefined)}>
+      <option value="">(keep current)</option>
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({onApply}) => {
+  const [templates, setTemplates] = useState(listTemplates);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>(
+    {},
+  );
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const allTags = useMemo(
+    () => [...new Set(templates.flatMap((t) => t.tags))].sort(),
+    [templates],
+  );
+  const visibleTemplates = searchTemplates(templates, query, activeTag);
+  const variables = selected ? extractTemplateVariables(selected.prompt) : [];
+
+  const handleSelect = (template: PromptTemplate) => {
+    setSelected(template);
+    setVariableValues({});
+    setDraft(null);
+    setMessage(null);
+  };
+
+  const handleUse = () => {
+    if (!selected) return;
+    onApply({
+      ...selected.defaults,
+      prompt: fillTemplate(selected.prompt, variableValues),
+    });
+    setSelected(null);
+  };
+
+  const handleEdit = (template?: PromptTemplate) => {
+    setDraft(
+      template
+        ? {
+            id: template.id,
+            name: template.name,
+            prompt: template.prompt,
+            tags: template.tags.join(', '),
+            defaults: {...template.defaults},
+          }
+        : emptyDraft,
+    );
+    setSelected(null);
+    setMessage(null);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    try {
+      setTemplates(
+        saveTemplate({
+          id: draft.id,
+          name: draft.name.trim(),
+          prompt: draft.prompt,
+          tags: parseTags(draft.tags),
+          defaults: draft.defaults,
+        }),
+      );
+      setDraft(null);
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      setMessage('The template could not be saved.');
+    }
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    setTemplates(deleteTemplate(template.id));
+    setSelected(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates(templates)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'charchiru-templates.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplateFile(await file.text());
+      setTemplates(importTemplates(imported));
+      setMessage(`Imported ${imported.length} template(s).`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Import failed.');
+    }
+  };
+
+  const updateDraftDefaults = (patch: TemplateDefaults) =>
+    setDraft((current) =>
+      current ? {...current, defaults: {...current.defaults, ...patch}} : null,
+    );
+
+  return (
+    <div className="template-library">
+      <div className="template-toolbar">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search templates..."
+          aria-label="Search templates"
+        />
+        <button type="button" onClick={() => handleEdit()}>
+          New
+        </button>
+        <button type="button" onClick={() => importInputRef.current?.click()}>
+          Import
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={templates.length === 0}>
+          Export
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{display: 'none'}}
+        />
+      </div>
+      {allTags.length > 0 && (
+        <div className="template-tags">
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              className={tag === activeTag ? 'active' : undefined}
+              onClick={() => setActiveTag(tag === activeTag ? null : tag)}>
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      {message && <p className="template-message">{message}</p>}
+      <div className="example-prompts">
+        {visibleTemplates.map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            className={template.id === selected?.id ? 'active' : undefined}
+            onClick={() => handleSelect(template)}>
+            {template.name}
+          </button>
+        ))}
+        {visibleTemplates.length === 0 && <p>No templates match.</p>}
+      </div>
+
+      {selected && (
+        <div className="template-panel">
+          <p className="template-preview">
+            {fillTemplate(selected.prompt, variableValues)}
+          </p>
+          {variables.map((name) => (
+            <label key={name} className="template-field">
+              {name}
+              <input
+                type="text"
+                value={variableValues[name] ?? ''}
+                onChange={(e) =>
+                  setVariableValues((values) => ({
+                    ...values,
+                    [name]: e.target.value,
+                  }))
+                }
+              />
+            </label>
+          ))}
+          <div className="video-actions">
+            <button type="button" onClick={handleUse}>
+              Use
+            </button>
+            <button type="button" onClick={() => handleEdit(selected)}>
+              Edit
+            </button>
+            <button type="button" onClick={() => handleDelete(selected)}>
+              Delete
+            </button>
+            <button type="button" onClick={() => setSelected(null)}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
+      {draft && (
+        <form className="template-panel" onSubmit={handleSave}>
+          <label className="template-field">
+            Name
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({...draft, name: e.target.value})}
+              required
+            />
+          </label>
+          <label className="template-field">
+            Prompt (use {'{variable}'} placeholders)
+            <textarea
+              value={draft.prompt}
+              rows={3}
+              onChange={(e) => setDraft({...draft, prompt: e.target.value})}
+              required
+            />
+          </label>
+          <label className="template-field">
+            Tags (comma separated)
+            <input
+              type="text"
+              value={draft.tags}
+              onChange={(e) => setDraft({...draft, tags: e.target.value})}
+            />
+          </label>
+          <div className="template-defaults">
+            <DefaultSelect
+              label="Mode"
+              value={draft.defaults.mode}
+              options={templateModes}
+              onChange={(mode) => updateDraftDefaults({mode})}
+            />
+            <DefaultSelect
+              label="Model"
+              value={draft.defaults.model}
+              options={Object.values(VeoModel)}
+              onChange={(model) => updateDraftDefaults({model})}
+            />
+            <DefaultSelect
+              label="Aspect Ratio"
+              value={draft.defaults.aspectRatio}
+              options={Object.values(AspectRatio)}
+              onChange={(aspectRatio) => updateDraftDefaults({aspectRatio})}
+            />
+            <DefaultSelect
+              label="Resolution"
+              value={draft.defaults.resolution}
+              options={Object.values(Resolution)}
+              onChange={(resolution) => updateDraftDefaults({resolution})}
+            />
+          </div>
+          <label className="template-field">
+            Music Prompt
+            <input
+              type="text"
+              value={draft.defaults.musicPrompt ?? ''}
+              onChange={(e) =>
+                updateDraftDefaults({musicPrompt: e.target.value || undefined})
+              }
+            />
+          </label>
+          <div className="video-actions">
+            <button type="submit">Save Template</button>
+            <button type="button" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,278 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  DEFAULT_PRICE_PER_SECOND_USD,
+  PricingTable,
+  formatUsd,
+  getPricing,
+  resetPricing,
+  setPricing,
+} from '../services/pricing';
+import {
+  UsageGrouping,
+  clearUsage,
+  getBudget,
+  listUsage,
+  setBudget,
+  subscribeUsage,
+  sumMonthSpend,
+  summarizeUsage,
+} from '../services/usageLedger';
+import {UsageRecord, UsageStatus, VeoModel} from '../types';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const RECENT_LIMIT = 20;
+
+const groupings: Array<[UsageGrouping, string]> = [
+  ['day', 'Day'],
+  ['model', 'Model'],
+  ['mode', 'Mode'],
+];
+
+const formatLimit = (limit: number | null) =>
+  limit === null ? '' : String(limit);
+
+const parseLimit = (text: string) => {
+  const value = Number(text);
+  return text.trim() && Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const toRateText = (pricing: PricingTable) =>
+  Object.fromEntries(
+    Object.values(VeoModel).map((model) => [model, String(pricing[model])]),
+  ) as Record<VeoModel, string>;
+
+const formatSeconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({onClose}) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [grouping, setGrouping] = useState<UsageGrouping>('day');
+  const [softLimit, setSoftLimit] = useState(() =>
+    formatLimit(getBudget().softLimitUsd),
+  );
+  const [hardLimit, setHardLimit] = useState(() =>
+    formatLimit(getBudget().hardLimitUsd),
+  );
+  const [rates, setRates] = useState(() => toRateText(getPricing()));
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await listUsage());
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+      setMessage('The usage ledger could not be loaded.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeUsage(refresh);
+  }, [refresh]);
+
+  const budget = getBudget();
+  const monthSpend = sumMonthSpend(records);
+  const rows = summarizeUsage(records, grouping);
+
+  const handleSaveBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    setBudget({
+      softLimitUsd: parseLimit(softLimit),
+      hardLimitUsd: parseLimit(hardLimit),
+    });
+    setMessage('Budget saved.');
+  };
+
+  const handleSavePricing = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pricing = {} as PricingTable;
+    for (const model of Object.values(VeoModel)) {
+      const rate = Number(rates[model]);
+      if (!rates[model].trim() || !Number.isFinite(rate) || rate < 0) {
+        setMessage(`Enter a price per second for ${model}.`);
+        return;
+      }
+      pricing[model] = rate;
+    }
+    setPricing(pricing);
+    setMessage('Prices saved. They apply to renders from now on.');
+  };
+
+  const handleResetPricing = () => {
+    resetPricing();
+    setRates(toRateText(DEFAULT_PRICE_PER_SECOND_USD));
+    setMessage('Prices reset to list prices.');
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole usage ledger?')) return;
+    try {
+      await clearUsage();
+    } catch (error) {
+      console.error('Failed to clear usage:', error);
+    }
+  };
+
+  return (
+    <div className="usage-dashboard">
+      <h2>USAGE &amp; SPEND</h2>
+      <p className="usage-total">
+        This month: <strong>{formatUsd(monthSpend)}</strong>
+        {budget.hardLimitUsd !== null &&
+          ` of ${formatUsd(budget.hardLimitUsd)} hard limit`}
+        {budget.softLimitUsd !== null &&
+          monthSpend > budget.softLimitUsd &&
+          ' (soft limit passed)'}
+      </p>
+      {message && <p className="template-message">{message}</p>}
+
+      <div className="template-tags">
+        {groupings.map(([value, label]) => (
+          <button
+            key={value}
+            className={grouping === value ? 'active' : undefined}
+            onClick={() => setGrouping(value)}>
+            By {label}
+          </button>
+        ))}
+      </div>
+      {isLoading ? (
+        <p>Loading ledger...</p>
+      ) : rows.length === 0 ? (
+        <p>No renders recorded yet.</p>
+      ) : (
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>{groupings.find(([value]) => value === grouping)?.[1]}</th>
+              <th>Renders</th>
+              <th>Failed</th>
+              <th>Seconds</th>
+              <th>Spend</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td>{row.key}</td>
+                <td>{row.renders}</td>
+                <td>{row.failed}</td>
+                <td>{row.seconds}</td>
+                <td>{formatUsd(row.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="usage-settings">
+        <form onSubmit={handleSaveBudget}>
+          <h3>MONTHLY BUDGET (USD)</h3>
+          <label className="template-field">
+            Soft limit (warns)
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={softLimit}
+              onChange={(e) => setSoftLimit(e.target.value)}
+              placeholder="none"
+            />
+          </label>
+          <label className="template-field">
+            Hard limit (blocks renders)
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={hardLimit}
+              onChange={(e) => setHardLimit(e.target.value)}
+              placeholder="none"
+            />
+          </label>
+          <button type="submit">Save Budget</button>
+        </form>
+        <form onSubmit={handleSavePricing}>
+          <h3>PRICE PER SECOND (USD)</h3>
+          {Object.values(VeoModel).map((model) => (
+            <label key={model} className="template-field">
+              {model}
+              <input
+                type="number"
+                min={0}
+                step="0.001"
+                value={rates[model]}
+                onChange={(e) =>
+                  setRates((current) => ({...current, [model]: e.target.value}))
+                }
+              />
+            </label>
+          ))}
+          <div className="job-actions">
+            <button type="submit">Save Prices</button>
+            <button type="button" onClick={handleResetPricing}>
+              Reset
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {records.length > 0 && (
+        <>
+          <h3>RECENT RENDERS</h3>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Model</th>
+                <th>Mode</th>
+                <th>Status</th>
+                <th>Took</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.slice(0, RECENT_LIMIT).map((record) => (
+                <tr key={record.id} title={record.error}>
+                  <td>{new Date(record.createdAt).toLocaleString()}</td>
+                  <td>
+                    {record.model} / {record.resolution}
+                  </td>
+                  <td>{record.mode}</td>
+                  <td
+                    className={
+                      record.status === UsageStatus.FAILED
+                        ? 'job-error'
+                        : undefined
+                    }>
+                    {record.status}
+                  </td>
+                  <td>{formatSeconds(record.wallClockMs)}</td>
+                  <td>{formatUsd(record.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <div className="video-actions">
+        <button onClick={handleClear} disabled={records.length === 0}>
+          Clear Ledger
+        </button>
+        <button onClick={onClose}>Back</button>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {pickAssemblyMimeType} from '../services/videoAssembly';
+import {
+  PLAYBACK_SPEEDS,
+  clampEdit,
+  createEdit,
+  getEditedDuration,
+  isUnchangedEdit,
+  renderEdit,
+} from '../services/videoEdit';
+import {VideoEdit} from '../types';
+import {renderBar} from './LoadingIndicator';
+
+interface VideoEditorProps {
+  // The result player; speed, mute and the loop region are previewed on it.
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  sourceBlob: Blob;
+  onSave: (blob: Blob, edit: VideoEdit) => void;
+}
+
+const VideoEditor: React.FC<VideoEditorProps> = ({
+  videoRef,
+  sourceBlob,
+  onSave,
+}) => {
+  const [duration, setDuration] = useState(0);
+  const [time, setTime] = useState(0);
+  const [edit, setEdit] = useState<VideoEdit | null>(null);
+  const [isLoopPreview, setIsLoopPreview] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const mimeType = pickAssemblyMimeType();
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const sync = () => {
+      setTime(video.currentTime);
+      if (Number.isFinite(video.duration) && video.duration > 0) {
+        setDuration(video.duration);
+        setEdit((current) => current ?? createEdit(video.duration));
+      }
+    };
+    sync();
+    video.addEventListener('timeupdate', sync);
+    video.addEventListener('loadedmetadata', sync);
+    return () => {
+      video.removeEventListener('timeupdate', sync);
+      video.removeEventListener('loadedmetadata', sync);
+      video.playbackRate = 1;
+      video.muted = false;
+    };
+  }, [videoRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !edit) return;
+    video.playbackRate = edit.speed;
+    video.muted = edit.muted;
+  }, [videoRef, edit]);
+
+  // Checked every frame rather than on timeupdate, which fires too rarely
+  // for the jump back to the in point to look seamless.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !edit || !isLoopPreview) return;
+    let frameId = 0;
+    const tick = () => {
+      if (
+        video.currentTime >= edit.outPoint ||
+        video.currentTime < edit.inPoint
+      ) {
+        video.currentTime = edit.inPoint;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, edit, isLoopPreview]);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+    },
+    [],
+  );
+
+  if (!edit) {
+    return <div className="video-editor">Loading video...</div>;
+  }
+
+  const isExporting = progress !== null;
+
+  const update = (patch: Partial<VideoEdit>) =>
+    setEdit(clampEdit({...edit, ...patch}, duration));
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await renderEdit(sourceBlob, edit, {
+        signal: controller.signal,
+        onProgress: ({fraction}) => setProgress(fraction),
+      });
+      onSave(blob, edit);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Failed to export edit:', err);
+        setError(err instanceof Error ? err.message : 'Export failed.');
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const renderPoint = (label: string, field: 'inPoint' | 'outPoint') => (
+    <label>
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={duration}
+        step={0.05}
+        value={Number(edit[field].toFixed(2))}
+        disabled={isExporting}
+        onChange={(e) => update({[field]: Number(e.target.value)})}
+      />
+      <button
+        type="button"
+        onClick={() => update({[field]: time})}
+        disabled={isExporting}>
+        Set to {time.toFixed(2)}s
+      </button>
+    </label>
+  );
+
+  return (
+    <div className="video-editor">
+      <div className="video-editor-range" aria-hidden="true">
+        <span
+          style={{
+            left: `${(edit.inPoint / duration) * 100}%`,
+            width: `${((edit.outPoint - edit.inPoint) / duration) * 100}%`,
+          }}
+        />
+      </div>
+      <div className="video-editor-fields">
+        {renderPoint('In', 'inPoint')}
+        {renderPoint('Out', 'outPoint')}
+        <label>
+          Speed
+          <select
+            value={edit.speed}
+            disabled={isExporting}
+            onChange={(e) => update({speed: Number(e.target.value)})}>
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={edit.muted}
+            disabled={isExporting}
+            onChange={(e) => update({muted: e.target.checked})}
+          />{' '}
+          Strip audio
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={isLoopPreview}
+            onChange={(e) => setIsLoopPreview(e.target.checked)}
+          />{' '}
+          Loop region
+        </label>
+      </div>
+      <div className="job-actions">
+        <span>Output {getEditedDuration(edit).toFixed(2)}s</span>
+        <button
+          type="button"
+          onClick={() => setEdit(createEdit(duration))}
+          disabled={isExporting}>
+          Reset
+        </button>
+        {isExporting ? (
+          <button
+            type="button"
+            onClick={() => controllerRef.current?.abort()}>
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!mimeType || isUnchangedEdit(edit, duration)}>
+            Save Edited Copy
+          </button>
+        )}
+      </div>
+      {!mimeType && (
+        <p className="job-error">This browser cannot record video.</p>
+      )}
+      {isExporting && (
+        <p className="assembly-progress">
+          ENCODING {renderBar(progress)} {Math.round(progress * 100)}%
+        </p>
+      )}
+      {error && <p className="job-error">{error}</p>}
+    </div>
+  );
+};
+
+export default VideoEditor;
@@ -2,45 +2,94 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, {useRef, useState} from 'react';
+import {FrameSlot, GenerateVideoParams, ImageFile, VideoEdit} from '../types';
+import ExportDialog from './ExportDialog';
+import FrameScrubber from './FrameScrubber';
+import VideoEditor from './VideoEditor';
 
 interface VideoResultProps {
   videoUrl: string;
+  videoBlob: Blob | null;
+  params: GenerateVideoParams | null;
   onRetry: () => void;
   onNewVideo: () => void;
   onExtend: () => void;
   canExtend: boolean;
   onDownload: () => void;
+  onUseFrame: (slot: FrameSlot, frame: ImageFile) => void;
+  onSaveEdit: (blob: Blob, edit: VideoEdit) => void;
+  onSaveFile: (blob: Blob, filename: string) => void;
 }
 
 const VideoResult: React.FC<VideoResultProps> = ({
   videoUrl,
+  videoBlob,
+  params,
   onRetry,
   onNewVideo,
   onExtend,
   canExtend,
   onDownload,
+  onUseFrame,
+  onSaveEdit,
+  onSaveFile,
 }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
   return (
     <div className="video-result">
       <h2>GENERATION COMPLETE!</h2>
       <div className="video-wrapper">
         <video
+          ref={videoRef}
           src={videoUrl}
           controls
           autoPlay
           loop
         />
       </div>
+      {isScrubbing && (
+        <FrameScrubber videoRef={videoRef} onUseFrame={onUseFrame} />
+      )}
+      {isEditing && videoBlob && (
+        <VideoEditor
+          videoRef={videoRef}
+          sourceBlob={videoBlob}
+          onSave={onSaveEdit}
+        />
+      )}
 
       <div className="video-actions">
         <button onClick={onRetry}>Retry</button>
         <button onClick={onDownload}>Download</button>
+        {videoBlob && (
+          <button onClick={() => setIsExportOpen(true)}>Export...</button>
+        )}
+        <button onClick={() => setIsScrubbing((prev) => !prev)}>
+          {isScrubbing ? 'Hide Frames' : 'Frames'}
+        </button>
+        {videoBlob && (
+          <button onClick={() => setIsEditing((prev) => !prev)}>
+            {isEditing ? 'Close Editor' : 'Edit'}
+          </button>
+        )}
         {canExtend && (
           <button onClick={onExtend}>Extend</button>
         )}
         <button onClick={onNewVideo}>New Video</button>
       </div>
+      {isExportOpen && videoBlob && (
+        <ExportDialog
+          blob={videoBlob}
+          params={params}
+          onSave={onSaveFile}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
     </div>
   );
 };
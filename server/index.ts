@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GoogleGenAI} from '@google/genai';
+import {timingSafeEqual} from 'node:crypto';
+import {createReadStream, existsSync, statSync} from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import {Readable} from 'node:stream';
+import {ReadableStream as NodeReadableStream} from 'node:stream/web';
+import {validateParams} from '../services/capabilities';
+import {VideoGenerationError, classifyError} from '../services/errors';
+import {
+  buildGenerateVideosPayload,
+  createGeminiProvider,
+  toProviderOperation,
+} from '../services/providers/geminiProvider';
+import {
+  parseProxyPromptRequest,
+  parseProxyVideoRequest,
+} from '../services/providers/proxyRequest';
+
+// A small key-holding proxy for the Veo API. The browser talks to /api/* on
+// this server (see services/providers/proxyProvider.ts) and never sees the
+// key. When a production build exists in dist/, it is served as well.
+//
+// Video requests are rebuilt from known params and prompt instructions are
+// built here from a task kind, so the key cannot be used as an open relay.
+//
+// Every /api call must carry PROXY_TOKEN as a bearer token. The token is
+// built into the client bundle, which this server hands to anyone, so it only
+// stops casual cross-origin use (another site calling the proxy from your
+// browser). It is not access control: anyone who can load the app can spend
+// the key. Keep the proxy on localhost (the default) or a trusted network.
+//
+//   GEMINI_API_KEY=... PROXY_TOKEN=... npm run server
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the real environment.
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+const API_KEY = process.env.GEMINI_API_KEY;
+const TOKEN = process.env.PROXY_TOKEN;
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const DIST_DIR = path.resolve(import.meta.dirname, '..', 'dist');
+const ALLOWED_DOWNLOAD_HOST = 'generativelanguage.googleapis.com';
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set.');
+  process.exit(1);
+}
+if (!TOKEN) {
+  console.error('PROXY_TOKEN is not set.');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({apiKey: API_KEY});
+const gemini = createGeminiProvider({apiKey: API_KEY});
+
+const contentTypes: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.json': 'application/json',
+};
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Callers narrow the result; nothing about its shape is trusted.
+const readJsonBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large.');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON.');
+  }
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+};
+
+// Upstream failures keep their HTTP status so the client can classify them
+// the same way it would a direct API error.
+const sendError = (res: http.ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, {error: error.message});
+    return;
+  }
+  const classified: VideoGenerationError = classifyError(error);
+  console.error('Proxy request failed:', classified);
+  sendJson(res, classified.status ?? 502, {
+    error: classified.message,
+    kind: classified.kind,
+    details: classified.details,
+  });
+};
+
+const isAuthorized = (req: http.IncomingMessage) => {
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return (
+    actual.length === expected.length && timingSafeEqual(actual, expected)
+  );
+};
+
+const isAllowedVideoUri = (uri: string) =>
+  URL.canParse(uri) && new URL(uri).hostname === ALLOWED_DOWNLOAD_HOST;
+
+const handleSubmit = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) => {
+  const params = parseProxyVideoRequest(await readJsonBody(req));
+  const [issue] = validateParams(params);
+  if (issue) {
+    throw new HttpError(400, issue.message);
+  }
+  const inputVideoUri = params.inputVideoObject?.uri;
+  if (inputVideoUri !== undefined && !isAllowedVideoUri(inputVideoUri)) {
+    throw new HttpError(400, 'Unsupported input video URI.');
+  }
+  const operation = await ai.models.generateVideos(
+    buildGenerateVideosPayload(params),
+  );
+  sendJson(res, 200, toProviderOperation(operation));
+};
+
+const handlePoll = async (url: URL, res: http.ServerResponse) => {
+  const name = url.searchParams.get('name');
+  if (!name) {
+    throw new HttpError(400, 'Missing operation name.');
+  }
+  sendJson(res, 200, await gemini.poll(name));
+};
+
+const handleDownload = async (url: URL, res: http.ServerResponse) => {
+  const uri = url.searchParams.get('uri') ?? '';
+  if (!isAllowedVideoUri(uri)) {
+    throw new HttpError(400, 'Missing or unsupported video URI.');
+  }
+  const upstream = await gemini.download({uri});
+  const headers: Record<string, string> = {
+    'Content-Type': upstream.headers.get('Content-Type') ?? 'video/mp4',
+  };
+  const length = upstream.headers.get('Content-Length');
+  if (length) headers['Content-Length'] = length;
+  res.writeHead(200, headers);
+  if (upstream.body) {
+    Readable.fromWeb(upstream.body as NodeReadableStream).pipe(res);
+  } else {
+    res.end();
+  }
+};
+
+const handlePrompt = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) => {
+  const {task, images} = parseProxyPromptRequest(await readJsonBody(req));
+  sendJson(res, 200, {text: await gemini.generatePrompt(task, images)});
+};
+
+// A plain prefix check would let a sibling such as dist-old/ through.
+const isInsideDir = (dir: string, filePath: string) => {
+  const relative = path.relative(dir, filePath);
+  return (
+    relative !== '' &&
+    !relative.startsWith('..') &&
+    !path.isAbsolute(relative)
+  );
+};
+
+const serveStatic = (url: URL, res: http.ServerResponse) => {
+  const requested = path.resolve(
+    DIST_DIR,
+    '.' + decodeURIComponent(url.pathname),
+  );
+  const isInsideDist = isInsideDir(DIST_DIR, requested);
+  const filePath =
+    isInsideDist && existsSync(requested) && statSync(requested).isFile()
+      ? requested
+      : path.join(DIST_DIR, 'index.html');
+  if (!existsSync(filePath)) {
+    sendJson(res, 404, {
+      error: 'Not found. Run `npm run build` to serve the app.',
+    });
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type':
+      contentTypes[path.extname(filePath)] ?? 'application/octet-stream',
+  });
+  createReadStream(filePath).pipe(res);
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  try {
+    if (url.pathname.startsWith('/api/') && !isAuthorized(req)) {
+      throw new HttpError(401, 'Missing or wrong proxy token.');
+    }
+    if (req.method === 'POST' && url.pathname === '/api/videos') {
+      await handleSubmit(req, res);
+    } else if (req.method === 'GET' && url.pathname === '/api/operations') {
+      await handlePoll(url, res);
+    } else if (req.method === 'GET' && url.pathname === '/api/download') {
+      await handleDownload(url, res);
+    } else if (req.method === 'POST' && url.pathname === '/api/prompt') {
+      await handlePrompt(req, res);
+    } else if (url.pathname.startsWith('/api/')) {
+      throw new HttpError(404, 'Unknown endpoint.');
+    } else if (req.method === 'GET') {
+      serveStatic(url, res);
+    } else {
+      throw new HttpError(405, 'Method not allowed.');
+    }
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy(error as Error);
+    } else {
+      sendError(res, error);
+    }
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`CharChiru proxy listening on http://${HOST}:${PORT}`);
+  if (!LOOPBACK_HOSTS.includes(HOST)) {
+    console.warn(
+      'The proxy is reachable beyond this machine. Anyone who can load the ' +
+        'app can use the API key; only do this on a trusted network.',
+    );
+  }
+});
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Where the Gemini API key comes from at runtime. A key entered in the app
+// (kept for the session or persisted in this browser) takes precedence over
+// the build-time GEMINI_API_KEY, so each teammate can bill their own project
+// on a shared deployment.
+
+const STORAGE_KEY = 'charchiru.apiKey';
+
+export type ApiKeySource = 'session' | 'persisted' | 'env';
+
+const readStorage = (storage: Storage): string | null => {
+  try {
+    return storage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const getApiKeySource = (): ApiKeySource | null => {
+  if (typeof window === 'undefined') {
+    return process.env.API_KEY ? 'env' : null;
+  }
+  if (readStorage(sessionStorage)) return 'session';
+  if (readStorage(localStorage)) return 'persisted';
+  return process.env.API_KEY ? 'env' : null;
+};
+
+export const getApiKey = (): string | undefined => {
+  switch (getApiKeySource()) {
+    case 'session':
+      return readStorage(sessionStorage) ?? undefined;
+    case 'persisted':
+      return readStorage(localStorage) ?? undefined;
+    case 'env':
+      return process.env.API_KEY;
+    default:
+      return undefined;
+  }
+};
+
+export const hasApiKey = () => getApiKeySource() !== null;
+
+export const setApiKey = (key: string, persist: boolean) => {
+  clearApiKey();
+  (persist ? localStorage : sessionStorage).setItem(STORAGE_KEY, key.trim());
+};
+
+// Forgets any key entered in the app; a build-time key still applies.
+export const clearApiKey = () => {
+  sessionStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const maskApiKey = (key: string) =>
+  key.length <= 8
+    ? '•'.repeat(key.length)
+    : `${key.slice(0, 4)}${'•'.repeat(8)}${key.slice(-4)}`;
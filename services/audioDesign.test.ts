@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  AudioDesign,
+  GenerateVideoParams,
+  GenerationMode,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {
+  SILENT_SUFFIX,
+  emptyAudioDesign,
+  formatAudioDesign,
+  hasAudioDesign,
+} from './audioDesign';
+
+const withDesign = (
+  design: Partial<AudioDesign>,
+  overrides: Partial<GenerateVideoParams> = {},
+): GenerateVideoParams => ({
+  prompt: 'A street market at dusk',
+  model: VeoModel.VEO,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+  audioDesign: {...emptyAudioDesign(), ...design},
+  ...overrides,
+});
+
+describe('formatAudioDesign', () => {
+  it('returns null for an empty design', () => {
+    expect(formatAudioDesign(withDesign({}))).toBeNull();
+    expect(formatAudioDesign(withDesign({}, {audioDesign: undefined}))).toBe(
+      null,
+    );
+    expect(
+      formatAudioDesign(
+        withDesign({ambience: '  ', soundEffects: [' '], dialogue: []}),
+      ),
+    ).toBeNull();
+  });
+
+  it('writes music, ambience, sound effects and dialogue in order', () => {
+    expect(
+      formatAudioDesign(
+        withDesign(
+          {
+            musicGenre: 'jazz',
+            musicMood: 'warm',
+            musicTempo: 'slow',
+            ambience: 'crowd chatter',
+            soundEffects: ['a bell rings', '', 'a dog barks'],
+            dialogue: [
+              {speaker: 'Vendor', line: 'Fresh mangoes!'},
+              {speaker: '', line: 'Over here'},
+              {speaker: 'Nobody', line: ''},
+            ],
+          },
+          {musicPrompt: 'muted trumpet'},
+        ),
+      ),
+    ).toBe(
+      'Music: jazz, warm mood, slow tempo, muted trumpet. ' +
+        'Ambient sound: crowd chatter. ' +
+        'Sound effects: a bell rings; a dog barks. ' +
+        'Dialogue: Vendor says: "Fresh mangoes!" A voice says: "Over here"',
+    );
+  });
+
+  it('keeps the order when sections are missing', () => {
+    expect(
+      formatAudioDesign(
+        withDesign({
+          dialogue: [{speaker: 'Guide', line: 'Follow me'}],
+          ambience: 'wind',
+        }),
+      ),
+    ).toBe('Ambient sound: wind. Dialogue: Guide says: "Follow me"');
+  });
+
+  it('replaces double quotes inside dialogue', () => {
+    expect(
+      formatAudioDesign(
+        withDesign({
+          dialogue: [{speaker: 'Ana', line: 'He said "run" and left'}],
+        }),
+      ),
+    ).toBe(`Dialogue: Ana says: "He said 'run' and left"`);
+  });
+
+  it('trims whitespace and trailing punctuation', () => {
+    expect(
+      formatAudioDesign(
+        withDesign(
+          {
+            musicGenre: '  lo-fi  hip hop,, ',
+            ambience: 'rain on a tin roof.',
+            soundEffects: ['thunder;', 'a kettle whistles . '],
+          },
+          {musicPrompt: 'soft keys...'},
+        ),
+      ),
+    ).toBe(
+      'Music: lo-fi hip hop, soft keys. Ambient sound: rain on a tin roof. ' +
+        'Sound effects: thunder; a kettle whistles.',
+    );
+  });
+
+  it('describes silence when audio is off', () => {
+    expect(
+      formatAudioDesign(
+        withDesign({musicGenre: 'jazz'}, {generateAudio: false}),
+      ),
+    ).toBe(SILENT_SUFFIX);
+    expect(
+      formatAudioDesign(withDesign({}, {generateAudio: false})),
+    ).toBe(SILENT_SUFFIX);
+  });
+
+  it('ignores audio off in modes that keep the input audio', () => {
+    expect(
+      formatAudioDesign(
+        withDesign(
+          {ambience: 'surf'},
+          {mode: GenerationMode.EXTEND_VIDEO, generateAudio: false},
+        ),
+      ),
+    ).toBe('Ambient sound: surf.');
+    expect(
+      formatAudioDesign(
+        withDesign(
+          {},
+          {mode: GenerationMode.EXTEND_VIDEO, generateAudio: false},
+        ),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('hasAudioDesign', () => {
+  it('looks at the design and the music prompt', () => {
+    expect(hasAudioDesign(withDesign({}))).toBe(false);
+    expect(hasAudioDesign(withDesign({}, {musicPrompt: ' . '}))).toBe(false);
+    expect(hasAudioDesign(withDesign({}, {musicPrompt: 'harp'}))).toBe(true);
+    expect(
+      hasAudioDesign(withDesign({dialogue: [{speaker: 'A', line: ''}]})),
+    ).toBe(false);
+    expect(hasAudioDesign(withDesign({soundEffects: ['a splash']}))).toBe(
+      true,
+    );
+  });
+});
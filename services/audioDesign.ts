@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AudioDesign, DialogueLine, GenerateVideoParams} from '../types';
+import {getCapabilities} from './capabilities';
+
+// Compiles the audio section of the form into one prompt suffix. Veo reads
+// audio from the prompt text, so every render describes sound in the same
+// order and wording: music, ambience, sound effects, then dialogue.
+
+export const MUSIC_TEMPOS = ['slow', 'moderate', 'upbeat', 'fast'];
+
+export const emptyAudioDesign = (): AudioDesign => ({
+  musicGenre: '',
+  musicMood: '',
+  musicTempo: '',
+  ambience: '',
+  soundEffects: [],
+  dialogue: [],
+});
+
+export const SILENT_SUFFIX =
+  'Audio: none. The video is silent, with no music, sound effects or dialogue.';
+
+const clean = (text: string | undefined) =>
+  (text ?? '').trim().replace(/\s+/g, ' ').replace(/[.;,\s]+$/, '');
+
+const isFilledLine = (line: DialogueLine) => clean(line.line) !== '';
+
+// Veo treats quoted text as spoken words, so quotes inside a line are
+// replaced to keep the line in one piece.
+const formatDialogueLine = (line: DialogueLine) =>
+  `${clean(line.speaker) || 'A voice'} says: "${clean(line.line).replace(/"/g, "'")}"`;
+
+export const hasAudioDesign = (params: GenerateVideoParams) => {
+  const design = params.audioDesign;
+  return (
+    !!clean(params.musicPrompt) ||
+    (!!design &&
+      (!!clean(design.musicGenre) ||
+        !!clean(design.musicMood) ||
+        !!clean(design.musicTempo) ||
+        !!clean(design.ambience) ||
+        design.soundEffects.some((cue) => clean(cue)) ||
+        design.dialogue.some(isFilledLine)))
+  );
+};
+
+// Returns null when there is nothing to add to the prompt. Audio can only be
+// turned off in modes that support it; Extend keeps the input's audio.
+export const formatAudioDesign = (
+  params: GenerateVideoParams,
+): string | null => {
+  if (
+    params.generateAudio === false &&
+    getCapabilities(params.mode, params.model)?.supportsAudioToggle
+  ) {
+    return SILENT_SUFFIX;
+  }
+  const design = params.audioDesign ?? emptyAudioDesign();
+  const sentences: string[] = [];
+
+  const music = [
+    clean(design.musicGenre),
+    clean(design.musicMood) && `${clean(design.musicMood)} mood`,
+    clean(design.musicTempo) && `${clean(design.musicTempo)} tempo`,
+    clean(params.musicPrompt),
+  ].filter(Boolean);
+  if (music.length > 0) sentences.push(`Music: ${music.join(', ')}.`);
+
+  const ambience = clean(design.ambience);
+  if (ambience) sentences.push(`Ambient sound: ${ambience}.`);
+
+  const soundEffects = design.soundEffects.map(clean).filter(Boolean);
+  if (soundEffects.length > 0) {
+    sentences.push(`Sound effects: ${soundEffects.join('; ')}.`);
+  }
+
+  const dialogue = design.dialogue.filter(isFilledLine);
+  if (dialogue.length > 0) {
+    sentences.push(`Dialogue: ${dialogue.map(formatDialogueLine).join(' ')}`);
+  }
+
+  return sentences.length > 0 ? sentences.join(' ') : null;
+};
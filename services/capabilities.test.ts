@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  PersonGeneration,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {
+  MediaInput,
+  coerceToCapabilities,
+  getCapabilities,
+  getSupportedModels,
+  validateParams,
+} from './capabilities';
+
+const image: ImageFile = {
+  file: new File([], 'frame.png', {type: 'image/png'}),
+  base64: '',
+};
+
+const inputValues: Record<MediaInput, Partial<GenerateVideoParams>> = {
+  inputImage: {inputImage: image},
+  startFrame: {startFrame: image},
+  endFrame: {endFrame: image},
+  referenceImages: {referenceImages: [image]},
+  styleImage: {styleImage: image},
+  inputVideoObject: {inputVideoObject: {uri: 'https://example.com/v.mp4'}},
+};
+
+const baseParams = (
+  mode: GenerationMode,
+  model: VeoModel,
+): GenerateVideoParams => ({
+  prompt: 'A fox running through snow',
+  model,
+  mode,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+});
+
+// A request that satisfies everything the mode requires.
+const validParams = (mode: GenerationMode, model: VeoModel) => {
+  const capabilities = getCapabilities(mode, model)!;
+  return coerceToCapabilities(
+    Object.assign(
+      baseParams(mode, model),
+      ...capabilities.requiredInputs.map((input) => inputValues[input]),
+    ),
+  );
+};
+
+const combinations = Object.values(GenerationMode).flatMap((mode) =>
+  Object.values(VeoModel).map((model) => [mode, model] as const),
+);
+const supported = combinations.filter(([mode, model]) =>
+  getCapabilities(mode, model),
+);
+const unsupported = combinations.filter(
+  ([mode, model]) => !getCapabilities(mode, model),
+);
+
+const fieldsOf = (params: GenerateVideoParams) =>
+  validateParams(params).map((issue) => issue.field);
+
+describe('validateParams', () => {
+  it.each(supported)('accepts a complete %s request on %s', (mode, model) => {
+    expect(validateParams(validParams(mode, model))).toEqual([]);
+  });
+
+  it.each(unsupported)('rejects %s on %s', (mode, model) => {
+    expect(fieldsOf(baseParams(mode, model))).toEqual(['model']);
+  });
+
+  it.each(supported)('requires the inputs of %s on %s', (mode, model) => {
+    const params = validParams(mode, model);
+    for (const input of getCapabilities(mode, model)!.requiredInputs) {
+      expect(fieldsOf({...params, [input]: undefined})).toContain(input);
+    }
+  });
+
+  it.each(supported)('limits reference images for %s on %s', (mode, model) => {
+    const {maxReferenceImages} = getCapabilities(mode, model)!;
+    const params = validParams(mode, model);
+    const atLimit = Array(maxReferenceImages).fill(image);
+    if (maxReferenceImages > 0) {
+      expect(fieldsOf({...params, referenceImages: atLimit})).toEqual([]);
+    }
+    expect(
+      fieldsOf({...params, referenceImages: [...atLimit, image]}),
+    ).toContain('referenceImages');
+  });
+
+  it.each(supported)(
+    'rejects unsupported resolutions and aspect ratios for %s on %s',
+    (mode, model) => {
+      const capabilities = getCapabilities(mode, model)!;
+      const params = validParams(mode, model);
+      for (const resolution of Object.values(Resolution)) {
+        const issues = fieldsOf({
+          ...params,
+          resolution,
+          durationSeconds: undefined,
+        });
+        expect(issues.includes('resolution')).toBe(
+          !capabilities.resolutions.includes(resolution),
+        );
+      }
+      for (const aspectRatio of Object.values(AspectRatio)) {
+        expect(fieldsOf({...params, aspectRatio}).includes('aspectRatio')).toBe(
+          !capabilities.aspectRatios.includes(aspectRatio),
+        );
+      }
+    },
+  );
+
+  it.each(supported)(
+    'rejects unsupported durations for %s on %s',
+    (mode, model) => {
+      const capabilities = getCapabilities(mode, model)!;
+      const params = validParams(mode, model);
+      for (const durationSeconds of [4, 5, 6, 8]) {
+        expect(
+          fieldsOf({...params, durationSeconds}).includes('durationSeconds'),
+        ).toBe(!capabilities.durations.includes(durationSeconds));
+      }
+      expect(fieldsOf({...params, durationSeconds: undefined})).toEqual([]);
+    },
+  );
+
+  it.each(supported)(
+    'rejects unsupported person generation for %s on %s',
+    (mode, model) => {
+      const capabilities = getCapabilities(mode, model)!;
+      const params = validParams(mode, model);
+      for (const personGeneration of Object.values(PersonGeneration)) {
+        expect(
+          fieldsOf({...params, personGeneration}).includes('personGeneration'),
+        ).toBe(!capabilities.personGeneration.includes(personGeneration));
+      }
+    },
+  );
+
+  it('requires 1080p renders to be full length', () => {
+    const params = validParams(GenerationMode.TEXT_TO_VIDEO, VeoModel.VEO);
+    expect(
+      fieldsOf({...params, resolution: Resolution.P1080, durationSeconds: 4}),
+    ).toEqual(['durationSeconds']);
+    expect(
+      fieldsOf({...params, resolution: Resolution.P1080, durationSeconds: 8}),
+    ).toEqual([]);
+  });
+
+  it('accepts an audio design in place of a prompt', () => {
+    const params = {
+      ...validParams(GenerationMode.TEXT_TO_VIDEO, VeoModel.VEO),
+      prompt: ' ',
+    };
+    expect(fieldsOf(params)).toEqual(['prompt']);
+    expect(
+      fieldsOf({
+        ...params,
+        audioDesign: {
+          musicGenre: 'jazz',
+          musicMood: '',
+          musicTempo: '',
+          ambience: '',
+          soundEffects: [],
+          dialogue: [],
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it('rejects looping outside Frames to Video', () => {
+    for (const [mode, model] of supported) {
+      const {supportsLooping} = getCapabilities(mode, model)!;
+      expect(
+        fieldsOf({...validParams(mode, model), isLooping: true}).includes(
+          'isLooping',
+        ),
+      ).toBe(!supportsLooping);
+    }
+  });
+});
+
+describe('coerceToCapabilities', () => {
+  it.each(combinations)(
+    'produces a valid request for %s on %s',
+    (mode, model) => {
+      const [supportedModel] = getSupportedModels(mode);
+      const requiredInputs = getCapabilities(
+        mode,
+        supportedModel,
+      )!.requiredInputs;
+      const coerced = coerceToCapabilities({
+        ...Object.assign(
+          baseParams(mode, model),
+          ...requiredInputs.map((input) => inputValues[input]),
+        ),
+        resolution: Resolution.P1080,
+        aspectRatio: AspectRatio.PORTRAIT,
+        durationSeconds: 5,
+        personGeneration: PersonGeneration.ALLOW_ALL,
+        isLooping: true,
+      });
+      const capabilities = getCapabilities(mode, coerced.model)!;
+
+      expect(capabilities).toBeDefined();
+      expect(coerced.model).toBe(
+        getCapabilities(mode, model) ? model : supportedModel,
+      );
+      expect(validateParams(coerced)).toEqual([]);
+      expect(coerced.isLooping).toBe(capabilities.supportsLooping);
+    },
+  );
+
+  it('keeps choices the mode allows', () => {
+    const params: GenerateVideoParams = {
+      ...baseParams(GenerationMode.TEXT_TO_VIDEO, VeoModel.VEO_FAST),
+      aspectRatio: AspectRatio.PORTRAIT,
+      durationSeconds: 6,
+      personGeneration: PersonGeneration.ALLOW_ALL,
+    };
+    expect(coerceToCapabilities(params)).toEqual({...params, isLooping: false});
+  });
+
+  it('falls back to the longest duration and the first allowed values', () => {
+    const coerced = coerceToCapabilities({
+      ...baseParams(GenerationMode.REFERENCES_TO_VIDEO, VeoModel.VEO_FAST),
+      aspectRatio: AspectRatio.PORTRAIT,
+      resolution: Resolution.P1080,
+      durationSeconds: 4,
+      personGeneration: PersonGeneration.ALLOW_ALL,
+    });
+    expect(coerced).toMatchObject({
+      model: VeoModel.VEO,
+      resolution: Resolution.P720,
+      aspectRatio: AspectRatio.LANDSCAPE,
+      durationSeconds: 8,
+      personGeneration: PersonGeneration.ALLOW_ADULT,
+    });
+  });
+
+  it('forces full length at 1080p', () => {
+    const coerced = coerceToCapabilities({
+      ...baseParams(GenerationMode.TEXT_TO_VIDEO, VeoModel.VEO),
+      resolution: Resolution.P1080,
+      durationSeconds: 4,
+    });
+    expect(coerced.durationSeconds).toBe(8);
+  });
+
+  it('clears duration and person generation for Extend Video', () => {
+    const coerced = coerceToCapabilities({
+      ...baseParams(GenerationMode.EXTEND_VIDEO, VeoModel.VEO),
+      durationSeconds: 8,
+      personGeneration: PersonGeneration.ALLOW_ADULT,
+    });
+    expect(coerced.durationSeconds).toBeUndefined();
+    expect(coerced.personGeneration).toBeUndefined();
+  });
+
+  it('clears the audio toggle where the mode has none', () => {
+    for (const [mode, model] of supported) {
+      const coerced = coerceToCapabilities({
+        ...baseParams(mode, model),
+        generateAudio: false,
+      });
+      expect(coerced.generateAudio).toBe(
+        getCapabilities(mode, model)!.supportsAudioToggle ? false : undefined,
+      );
+    }
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  PersonGeneration,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {hasAudioDesign} from './audioDesign';
+import {InvalidInputError} from './errors';
+
+// What each generation mode accepts on each model, in one table. The form
+// reads it to offer only valid choices and the service checks every request
+// against it before anything is submitted.
+
+export type MediaInput =
+  | 'inputImage'
+  | 'startFrame'
+  | 'endFrame'
+  | 'referenceImages'
+  | 'styleImage'
+  | 'inputVideoObject';
+
+export interface ModeCapabilities {
+  resolutions: Resolution[];
+  aspectRatios: AspectRatio[];
+  requiredInputs: MediaInput[];
+  optionalInputs: MediaInput[];
+  maxReferenceImages: number;
+  // The output keeps the input video's aspect ratio; none is sent.
+  aspectRatioFromInput: boolean;
+  // A prompt (or music prompt) must be given.
+  requiresPrompt: boolean;
+  supportsLooping: boolean;
+  // Clip lengths in seconds; empty when the API decides.
+  durations: number[];
+  // Allowed person generation settings; empty when it cannot be set.
+  personGeneration: PersonGeneration[];
+  supportsNegativePrompt: boolean;
+  supportsSeed: boolean;
+  supportsAudioToggle: boolean;
+}
+
+// Resolutions that only render full-length clips.
+const FULL_LENGTH_RESOLUTIONS = [Resolution.P1080];
+
+export const isFullLengthOnly = (resolution: Resolution) =>
+  FULL_LENGTH_RESOLUTIONS.includes(resolution);
+
+export interface ValidationIssue {
+  field: keyof GenerateVideoParams;
+  message: string;
+}
+
+const allResolutions = Object.values(Resolution);
+const allAspectRatios = Object.values(AspectRatio);
+
+const baseCapabilities: ModeCapabilities = {
+  resolutions: allResolutions,
+  aspectRatios: allAspectRatios,
+  requiredInputs: [],
+  optionalInputs: [],
+  maxReferenceImages: 0,
+  aspectRatioFromInput: false,
+  requiresPrompt: false,
+  supportsLooping: false,
+  durations: [4, 6, 8],
+  // Image-based modes may not depict children.
+  personGeneration: [PersonGeneration.ALLOW_ADULT, PersonGeneration.DONT_ALLOW],
+  supportsNegativePrompt: true,
+  supportsSeed: true,
+  supportsAudioToggle: true,
+};
+
+const onAllModels = (
+  capabilities: ModeCapabilities,
+): Record<VeoModel, ModeCapabilities> => ({
+  [VeoModel.VEO_FAST]: capabilities,
+  [VeoModel.VEO]: capabilities,
+});
+
+// A model missing from a mode's entry cannot be used in that mode.
+export const MODE_CAPABILITIES: Record<
+  GenerationMode,
+  Partial<Record<VeoModel, ModeCapabilities>>
+> = {
+  [GenerationMode.TEXT_TO_VIDEO]: onAllModels({
+    ...baseCapabilities,
+    requiresPrompt: true,
+    personGeneration: Object.values(PersonGeneration),
+  }),
+  [GenerationMode.IMAGE_TO_VIDEO]: onAllModels({
+    ...baseCapabilities,
+    requiredInputs: ['inputImage'],
+  }),
+  [GenerationMode.FRAMES_TO_VIDEO]: onAllModels({
+    ...baseCapabilities,
+    requiredInputs: ['startFrame'],
+    optionalInputs: ['endFrame'],
+    supportsLooping: true,
+  }),
+  [GenerationMode.REFERENCES_TO_VIDEO]: {
+    [VeoModel.VEO]: {
+      ...baseCapabilities,
+      resolutions: [Resolution.P720],
+      aspectRatios: [AspectRatio.LANDSCAPE],
+      requiredInputs: ['referenceImages'],
+      optionalInputs: ['styleImage'],
+      maxReferenceImages: 3,
+      requiresPrompt: true,
+      durations: [8],
+    },
+  },
+  [GenerationMode.EXTEND_VIDEO]: {
+    [VeoModel.VEO]: {
+      ...baseCapabilities,
+      resolutions: [Resolution.P720],
+      requiredInputs: ['inputVideoObject'],
+      aspectRatioFromInput: true,
+      // Extensions have a fixed length and inherit audio from the input.
+      durations: [],
+      personGeneration: [],
+      supportsAudioToggle: false,
+    },
+  },
+};
+
+const inputLabels: Record<MediaInput, string> = {
+  inputImage: 'An input image',
+  startFrame: 'A start frame',
+  endFrame: 'An end frame',
+  referenceImages: 'At least one reference image',
+  styleImage: 'A style image',
+  inputVideoObject: 'An input video from a previous generation',
+};
+
+export const getCapabilities = (
+  mode: GenerationMode,
+  model: VeoModel,
+): ModeCapabilities | undefined => MODE_CAPABILITIES[mode][model];
+
+export const getSupportedModels = (mode: GenerationMode): VeoModel[] =>
+  Object.values(VeoModel).filter((model) => getCapabilities(mode, model));
+
+const coerceDuration = (
+  params: GenerateVideoParams,
+  capabilities: ModeCapabilities,
+) => {
+  const {durations} = capabilities;
+  if (durations.length === 0) return undefined;
+  const longest = durations[durations.length - 1];
+  if (isFullLengthOnly(params.resolution)) return longest;
+  return params.durationSeconds && durations.includes(params.durationSeconds)
+    ? params.durationSeconds
+    : longest;
+};
+
+// Moves model, resolution and aspect ratio to the closest values the mode
+// allows, keeping the current choice wherever it is valid. Settings the mode
+// does not take are cleared.
+export const coerceToCapabilities = <T extends GenerateVideoParams>(
+  params: T,
+): T => {
+  const model = getCapabilities(params.mode, params.model)
+    ? params.model
+    : getSupportedModels(params.mode)[0];
+  const capabilities = getCapabilities(params.mode, model)!;
+  return {
+    ...params,
+    model,
+    resolution: capabilities.resolutions.includes(params.resolution)
+      ? params.resolution
+      : capabilities.resolutions[0],
+    aspectRatio: capabilities.aspectRatios.includes(params.aspectRatio)
+      ? params.aspectRatio
+      : capabilities.aspectRatios[0],
+    isLooping: capabilities.supportsLooping ? params.isLooping : false,
+    durationSeconds: coerceDuration(params, capabilities),
+    personGeneration:
+      params.personGeneration &&
+      capabilities.personGeneration.includes(params.personGeneration)
+        ? params.personGeneration
+        : capabilities.personGeneration[0],
+    generateAudio: capabilities.supportsAudioToggle
+      ? params.generateAudio
+      : undefined,
+  };
+};
+
+const hasInput = (params: GenerateVideoParams, input: MediaInput) => {
+  const value = params[input];
+  return Array.isArray(value) ? value.length > 0 : !!value;
+};
+
+// Every problem with the request, in the order the form should show them.
+export const validateParams = (
+  params: GenerateVideoParams,
+): ValidationIssue[] => {
+  const capabilities = getCapabilities(params.mode, params.model);
+  if (!capabilities) {
+    return [
+      {
+        field: 'model',
+        message: `${params.mode} is not available on ${params.model}.`,
+      },
+    ];
+  }
+  const issues: ValidationIssue[] = [];
+  for (const input of capabilities.requiredInputs) {
+    if (!hasInput(params, input)) {
+      issues.push({field: input, message: `${inputLabels[input]} is required.`});
+    }
+  }
+  const referenceCount = params.referenceImages?.length ?? 0;
+  if (referenceCount > capabilities.maxReferenceImages) {
+    issues.push({
+      field: 'referenceImages',
+      message:
+        capabilities.maxReferenceImages === 0
+          ? `${params.mode} does not use reference images.`
+          : `At most ${capabilities.maxReferenceImages} reference images are allowed.`,
+    });
+  }
+  if (
+    capabilities.requiresPrompt &&
+    !params.prompt?.trim() &&
+    !hasAudioDesign(params)
+  ) {
+    issues.push({field: 'prompt', message: 'Please enter a prompt.'});
+  }
+  if (!capabilities.resolutions.includes(params.resolution)) {
+    issues.push({
+      field: 'resolution',
+      message: `${params.mode} supports ${capabilities.resolutions.join(', ')} only.`,
+    });
+  }
+  if (!capabilities.aspectRatios.includes(params.aspectRatio)) {
+    issues.push({
+      field: 'aspectRatio',
+      message: `${params.mode} supports ${capabilities.aspectRatios.join(', ')} only.`,
+    });
+  }
+  if (params.durationSeconds !== undefined) {
+    if (!capabilities.durations.includes(params.durationSeconds)) {
+      issues.push({
+        field: 'durationSeconds',
+        message:
+          capabilities.durations.length === 0
+            ? `${params.mode} does not take a duration.`
+            : `${params.mode} supports ${capabilities.durations.join(', ')} second clips.`,
+      });
+    } else if (
+      isFullLengthOnly(params.resolution) &&
+      params.durationSeconds !== Math.max(...capabilities.durations)
+    ) {
+      issues.push({
+        field: 'durationSeconds',
+        message: `${params.resolution} renders are ${Math.max(...capabilities.durations)} seconds long.`,
+      });
+    }
+  }
+  if (
+    params.personGeneration &&
+    !capabilities.personGeneration.includes(params.personGeneration)
+  ) {
+    issues.push({
+      field: 'personGeneration',
+      message: `${params.mode} does not allow person generation "${params.personGeneration}".`,
+    });
+  }
+  if (params.isLooping && !capabilities.supportsLooping) {
+    issues.push({
+      field: 'isLooping',
+      message: `${params.mode} cannot create looping videos.`,
+    });
+  }
+  return issues;
+};
+
+export const assertValidParams = (params: GenerateVideoParams) => {
+  const issues = validateParams(params);
+  if (issues.length > 0) {
+    throw new InvalidInputError(issues[0].message, {
+      details: issues.map((issue) => issue.message).join(' '),
+    });
+  }
+};
+
+// Whether a finished render can be fed into Extend.
+export const canExtendResult = (params: GenerateVideoParams) =>
+  getSupportedModels(GenerationMode.EXTEND_VIDEO).some((model) =>
+    getCapabilities(GenerationMode.EXTEND_VIDEO, model)!.resolutions.includes(
+      params.resolution,
+    ),
+  );
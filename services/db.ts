@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shared IndexedDB connection for everything the app persists locally.
+// Blobs, Files and Video objects are structured-cloneable, so records are
+// stored as-is.
+
+const DB_NAME = 'charchiru';
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = 'history';
+export const PENDING_OPERATIONS_STORE = 'pendingOperations';
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, {keyPath: 'id'});
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(PENDING_OPERATIONS_STORE)) {
+          db.createObjectStore(PENDING_OPERATIONS_STORE, {
+            keyPath: 'operationName',
+          });
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          const store = db.createObjectStore(USAGE_STORE, {keyPath: 'id'});
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return runRequest(callback(transaction.objectStore(storeName)));
+};
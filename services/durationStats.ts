@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Resolution, VeoModel} from '../types';
+
+// Wall-clock durations of past successful jobs, used to estimate how long a
+// new one will take. Kept per model and resolution since those dominate.
+
+const STORAGE_KEY = 'charchiru.jobDurations';
+const MAX_SAMPLES = 20;
+
+type DurationSamples = Record<string, number[]>;
+
+const sampleKey = (model: VeoModel, resolution: Resolution) =>
+  `${model}|${resolution}`;
+
+const loadSamples = (): DurationSamples => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const recordJobDuration = (
+  model: VeoModel,
+  resolution: Resolution,
+  durationMs: number,
+) => {
+  const samples = loadSamples();
+  const key = sampleKey(model, resolution);
+  samples[key] = [...(samples[key] ?? []), durationMs].slice(-MAX_SAMPLES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(samples));
+  } catch (error) {
+    console.error('Failed to store job duration:', error);
+  }
+};
+
+// Median of past durations, or null when there is no history yet.
+export const estimateJobDuration = (
+  model: VeoModel,
+  resolution: Resolution,
+): number | null => {
+  const durations = loadSamples()[sampleKey(model, resolution)];
+  if (!durations?.length) return null;
+  const sorted = [...durations].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
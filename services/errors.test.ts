@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ApiError} from '@google/genai';
+import {describe, expect, it} from 'vitest';
+import {
+  AuthError,
+  ContentPolicyError,
+  InvalidInputError,
+  NetworkError,
+  OperationFailedError,
+  QuotaError,
+  UnknownError,
+  VideoErrorKind,
+  classifyError,
+} from './errors';
+
+describe('classifyError', () => {
+  it.each([
+    [401, 'Unauthorized', AuthError],
+    [403, 'Permission denied', AuthError],
+    [400, 'API key not valid. Please pass a valid API key.', AuthError],
+    [429, 'Resource has been exhausted', QuotaError],
+    [400, 'Request contains an invalid argument', InvalidInputError],
+    [404, 'Model not found', InvalidInputError],
+    [400, 'Prompt was blocked by the safety filter', ContentPolicyError],
+    [500, 'Internal error', NetworkError],
+    [503, 'Service unavailable', NetworkError],
+  ])('maps ApiError %i "%s"', (status, message, expected) => {
+    const classified = classifyError(new ApiError({status, message}));
+    expect(classified).toBeInstanceOf(expected);
+    expect(classified.status).toBe(status);
+    expect(classified.details).toBe(message);
+  });
+
+  it('treats a fetch TypeError as a network failure', () => {
+    const classified = classifyError(new TypeError('Failed to fetch'));
+    expect(classified).toBeInstanceOf(NetworkError);
+    expect(classified.kind).toBe(VideoErrorKind.NETWORK);
+    expect(classified.details).toBe('Failed to fetch');
+  });
+
+  it.each([
+    'NetworkError when attempting to fetch resource.',
+    'Load failed',
+    'fetch failed',
+  ])('treats the fetch failure "%s" as a network failure', (message) => {
+    expect(classifyError(new TypeError(message))).toBeInstanceOf(NetworkError);
+  });
+
+  it('treats any other TypeError as an app error', () => {
+    const classified = classifyError(
+      new TypeError("Cannot read properties of undefined (reading 'uri')"),
+    );
+    expect(classified).toBeInstanceOf(UnknownError);
+    expect(classified.kind).toBe(VideoErrorKind.UNKNOWN);
+  });
+
+  it('falls back to an operation failure', () => {
+    expect(classifyError(new Error('boom'))).toBeInstanceOf(
+      OperationFailedError,
+    );
+    expect(classifyError('boom').details).toBe('boom');
+  });
+
+  it('passes classified errors through', () => {
+    const error = new QuotaError('Quota or rate limit exceeded.');
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('redacts API keys from details', () => {
+    const classified = classifyError(
+      new ApiError({
+        status: 500,
+        message: `GET /v1/files?key=AIza${'x'.repeat(35)}&alt=media failed`,
+      }),
+    );
+    expect(classified.details).toBe(
+      'GET /v1/files?key=[redacted]&alt=media failed',
+    );
+  });
+});
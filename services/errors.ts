@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ApiError} from '@google/genai';
+
+// Typed failures for the video pipeline, so the UI and the retry logic can
+// tell a bad key from a quota hit, a safety block or a dropped connection.
+
+export enum VideoErrorKind {
+  AUTH = 'auth',
+  QUOTA = 'quota',
+  CONTENT_POLICY = 'content-policy',
+  INVALID_INPUT = 'invalid-input',
+  OPERATION_FAILED = 'operation-failed',
+  DOWNLOAD_FAILED = 'download-failed',
+  NETWORK = 'network',
+  BUDGET = 'budget',
+  // A bug or an unexpected failure in the app itself; never retried.
+  UNKNOWN = 'unknown',
+}
+
+// Strips anything that looks like an API key and caps the length, so error
+// details can be shown in the UI and logged safely.
+const sanitizeDetails = (details?: string): string | undefined => {
+  if (!details) return undefined;
+  return details
+    .replace(/([?&]key=)[^&\s"']+/gi, '$1[redacted]')
+    .replace(/AIza[0-9A-Za-z_-]{20,}/g, '[redacted]')
+    .slice(0, 300);
+};
+
+export abstract class VideoGenerationError extends Error {
+  abstract readonly kind: VideoErrorKind;
+  readonly details?: string;
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    options: {details?: string; status?: number} = {},
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.details = sanitizeDetails(options.details);
+    this.status = options.status;
+  }
+}
+
+export class AuthError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.AUTH;
+}
+
+export class QuotaError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.QUOTA;
+}
+
+export class ContentPolicyError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.CONTENT_POLICY;
+}
+
+export class InvalidInputError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.INVALID_INPUT;
+}
+
+export class OperationFailedError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.OPERATION_FAILED;
+}
+
+export class DownloadFailedError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.DOWNLOAD_FAILED;
+}
+
+export class NetworkError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.NETWORK;
+}
+
+// Raised locally, before submitting, when the hard spending limit is reached.
+export class BudgetExceededError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.BUDGET;
+}
+
+export class UnknownError extends VideoGenerationError {
+  readonly kind = VideoErrorKind.UNKNOWN;
+}
+
+export const CONTENT_POLICY_PATTERN =
+  /safety|policy|blocked|responsible ai|\brai\b|prohibited/i;
+
+// The TypeError messages fetch() rejects with when the request itself fails
+// (Chrome, Firefox, Safari and Node, in that order).
+export const FETCH_FAILURE_PATTERN =
+  /failed to fetch|networkerror when attempting to fetch|load failed|fetch failed/i;
+
+// Maps whatever the SDK or fetch threw onto the error hierarchy above.
+export const classifyError = (error: unknown): VideoGenerationError => {
+  if (error instanceof VideoGenerationError) {
+    return error;
+  }
+  if (error instanceof ApiError) {
+    const {status, message} = error;
+    const details = {details: message, status};
+    if (status === 401 || status === 403 || /api key/i.test(message)) {
+      return new AuthError('The API key was rejected.', details);
+    }
+    if (status === 429) {
+      return new QuotaError('Quota or rate limit exceeded.', details);
+    }
+    if (CONTENT_POLICY_PATTERN.test(message)) {
+      return new ContentPolicyError(
+        'The request was blocked by the content policy.',
+        details,
+      );
+    }
+    if (status === 400 || status === 404) {
+      return new InvalidInputError(
+        'The request was rejected as invalid.',
+        details,
+      );
+    }
+    return new NetworkError(
+      'The video service is temporarily unavailable.',
+      details,
+    );
+  }
+  if (error instanceof TypeError) {
+    // Any other TypeError is a bug, not a connection problem.
+    return FETCH_FAILURE_PATTERN.test(error.message)
+      ? new NetworkError('Could not reach the video service.', {
+          details: error.message,
+        })
+      : new UnknownError('Something went wrong in the app.', {
+          details: error.message,
+        });
+  }
+  return new OperationFailedError('Video generation failed.', {
+    details: error instanceof Error ? error.message : String(error),
+  });
+};
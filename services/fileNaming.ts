@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams} from '../types';
+
+// Download names come from a template with {token} placeholders so files
+// from a session sort and read well in a folder. The template is kept in
+// localStorage and edited in the export dialog.
+
+const STORAGE_KEY = 'charchiru.filenameTemplate';
+const TOKEN_PATTERN = /\{([a-z]+)\}/g;
+const MAX_PROMPT_LENGTH = 40;
+
+export const DEFAULT_FILENAME_TEMPLATE = 'charchiru-{prompt}-{model}-{timestamp}';
+
+export const filenameTokens: Record<string, string> = {
+  prompt: 'First words of the prompt',
+  model: 'Model name',
+  mode: 'Generation mode',
+  resolution: 'Resolution',
+  aspect: 'Aspect ratio',
+  seed: 'Seed',
+  date: 'Date, YYYY-MM-DD',
+  timestamp: 'Date and time, YYYYMMDD-HHMMSS',
+};
+
+const slugify = (text: string, maxLength = Infinity) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .substring(0, maxLength)
+    .replace(/^-+|-+$/g, '');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatTimestamp = (date: Date) =>
+  `${formatDate(date).replace(/-/g, '')}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+export const getFilenameTemplate = () =>
+  localStorage.getItem(STORAGE_KEY) || DEFAULT_FILENAME_TEMPLATE;
+
+export const setFilenameTemplate = (template: string) => {
+  if (template.trim() && template !== DEFAULT_FILENAME_TEMPLATE) {
+    localStorage.setItem(STORAGE_KEY, template);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+// Unknown tokens are dropped; empty values collapse their separators.
+export const formatFilename = (
+  params: GenerateVideoParams | null,
+  extension: string,
+  template = getFilenameTemplate(),
+  now = new Date(),
+) => {
+  const values: Record<string, string> = {
+    prompt: slugify(params?.prompt ?? '', MAX_PROMPT_LENGTH) || 'video',
+    model: slugify(params?.model ?? ''),
+    mode: slugify(params?.mode ?? ''),
+    resolution: slugify(params?.resolution ?? ''),
+    aspect: slugify(params?.aspectRatio ?? ''),
+    seed: typeof params?.seed === 'number' ? String(params.seed) : '',
+    date: formatDate(now),
+    timestamp: formatTimestamp(now),
+  };
+  const name = template
+    .replace(TOKEN_PATTERN, (_, token: string) => values[token] ?? '')
+    .replace(/[\\/:*?"<>|\s]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+  return `${name || 'charchiru'}.${extension}`;
+};
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  FrameSlot,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+} from '../types';
+import {coerceToCapabilities, getCapabilities} from './capabilities';
+
+// Grabs still frames from a video element so a shot can be continued in
+// another mode (last frame as the next start frame, and so on).
+
+const FRAME_MIME_TYPE = 'image/jpeg';
+const FRAME_QUALITY = 0.95;
+// Veo renders at 24 fps; used for frame-by-frame stepping.
+export const FRAME_STEP_SECONDS = 1 / 24;
+
+export const frameSlotModes: Record<FrameSlot, GenerationMode> = {
+  inputImage: GenerationMode.IMAGE_TO_VIDEO,
+  startFrame: GenerationMode.FRAMES_TO_VIDEO,
+  endFrame: GenerationMode.FRAMES_TO_VIDEO,
+  referenceImages: GenerationMode.REFERENCES_TO_VIDEO,
+  styleImage: GenerationMode.REFERENCES_TO_VIDEO,
+};
+
+export const frameSlotLabels: Record<FrameSlot, string> = {
+  inputImage: 'I2V Input',
+  startFrame: 'F2V Start',
+  endFrame: 'F2V End',
+  referenceImages: 'Reference',
+  styleImage: 'Style',
+};
+
+export const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const target = Math.min(Math.max(0, time), video.duration || 0);
+    if (Math.abs(video.currentTime - target) < 1e-4 && video.readyState >= 2) {
+      resolve();
+      return;
+    }
+    const cleanup = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+    };
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('The video could not be seeked.'));
+    };
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = target;
+  });
+
+// Encodes the frame the element is currently showing, at its native size.
+export const captureFrame = async (
+  video: HTMLVideoElement,
+  name = `frame-${video.currentTime.toFixed(2)}s`,
+): Promise<ImageFile> => {
+  if (!video.videoWidth || !video.videoHeight) {
+    throw new Error('The video has no frame to capture yet.');
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')!.drawImage(video, 0, 0);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, FRAME_MIME_TYPE, FRAME_QUALITY),
+  );
+  if (!blob) throw new Error('The frame could not be encoded.');
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return {
+    file: new File([blob], `${name}.jpg`, {type: FRAME_MIME_TYPE}),
+    base64: dataUrl.split(',')[1],
+  };
+};
+
+// Switches the params to the slot's mode and puts the frame there. Other
+// media inputs are cleared because they belong to the previous mode.
+export const routeFrameToParams = (
+  params: GenerateVideoParams,
+  slot: FrameSlot,
+  frame: ImageFile,
+): GenerateVideoParams => {
+  const mode = frameSlotModes[slot];
+  const keepsFrames = params.mode === mode;
+  const base = coerceToCapabilities({
+    ...params,
+    mode,
+    inputImage: null,
+    startFrame: keepsFrames ? params.startFrame : null,
+    endFrame: keepsFrames ? params.endFrame : null,
+    referenceImages: keepsFrames ? params.referenceImages : [],
+    styleImage: keepsFrames ? params.styleImage : null,
+    inputVideo: null,
+    inputVideoObject: null,
+    isLooping: false,
+  });
+  if (slot !== 'referenceImages') {
+    return {...base, [slot]: frame};
+  }
+  const maxReferences =
+    getCapabilities(base.mode, base.model)?.maxReferenceImages ?? 0;
+  // A full set drops its oldest reference.
+  return {
+    ...base,
+    referenceImages: [...(base.referenceImages ?? []), frame].slice(
+      -maxReferences,
+    ),
+  };
+};
@@ -0,0 +1,299 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  GenerationPhase,
+  GenerationProgress,
+  Resolution,
+  UsageStatus,
+  VeoModel,
+} from '../types';
+import {
+  BudgetExceededError,
+  ContentPolicyError,
+  InvalidInputError,
+  OperationFailedError,
+  VideoErrorKind,
+} from './errors';
+import {generateVideo, revokeResultUrls} from './geminiService';
+import {setVideoProvider} from './providers';
+import {estimateGenerationCost} from './pricing';
+import {ProviderOperation, VideoProvider} from './providers/videoProvider';
+import {checkBudget, recordUsage, reserveUsage} from './usageLedger';
+
+// IndexedDB and localStorage are not available under node.
+vi.mock('./usageLedger', () => ({
+  getMonthSpend: vi.fn(async () => 0),
+  checkBudget: vi.fn(() => ({spentUsd: 0, warning: null, blocked: null})),
+  recordUsage: vi.fn(async () => ({})),
+  reserveUsage: vi.fn(() => vi.fn()),
+}));
+
+const params: GenerateVideoParams = {
+  prompt: 'A lighthouse in a storm',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+const noDelay = {
+  maxAttempts: 3,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  backoffMultiplier: 1,
+  jitter: 0,
+};
+
+// A provider that finishes after `pollsUntilDone` polls, with each call
+// replaceable per test.
+const createStubProvider = (
+  overrides: Partial<VideoProvider> = {},
+  finished: Partial<ProviderOperation> = {},
+  pollsUntilDone = 2,
+): VideoProvider => {
+  let polls = 0;
+  return {
+    id: 'stub',
+    pollIntervalMs: 0,
+    requiresApiKey: false,
+    submit: vi.fn(async () => ({name: 'operations/1', done: false})),
+    poll: vi.fn(async (name) =>
+      ++polls < pollsUntilDone
+        ? {name, done: false}
+        : {
+            name,
+            done: true,
+            videos: [{uri: 'https://example.com/a.mp4'}],
+            ...finished,
+          },
+    ),
+    download: vi.fn(
+      async () =>
+        new Response(new Blob(['video-bytes'], {type: 'video/mp4'}), {
+          headers: {'Content-Type': 'video/mp4', 'Content-Length': '11'},
+        }),
+    ),
+    generatePrompt: vi.fn(async () => 'prompt'),
+    ...overrides,
+  };
+};
+
+describe('generateVideo', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(recordUsage).mockClear();
+    vi.mocked(reserveUsage).mockClear();
+  });
+
+  it('submits, polls and downloads through the active provider', async () => {
+    const provider = createStubProvider();
+    setVideoProvider(provider);
+    const phases: GenerationPhase[] = [];
+    const onOperationStarted = vi.fn();
+
+    const result = await generateVideo(params, {
+      onOperationStarted,
+      onProgress: ({phase}: GenerationProgress) => phases.push(phase),
+    });
+
+    expect(provider.submit).toHaveBeenCalledWith(params, undefined);
+    expect(provider.poll).toHaveBeenCalledTimes(2);
+    expect(onOperationStarted).toHaveBeenCalledWith('operations/1');
+    expect(await result.blob.text()).toBe('video-bytes');
+    expect(result.uri).toBe('https://example.com/a.mp4');
+    expect(result.candidates).toHaveLength(1);
+    expect(phases[0]).toBe(GenerationPhase.SUBMITTING);
+    expect(phases).toContain(GenerationPhase.POLLING);
+    expect(phases).toContain(GenerationPhase.DOWNLOADING);
+    expect(phases.at(-1)).toBe(GenerationPhase.BLOB_READY);
+    expect(recordUsage).toHaveBeenCalledWith(
+      params,
+      expect.objectContaining({status: UsageStatus.SUCCEEDED, videoCount: 1}),
+    );
+    revokeResultUrls(result);
+  });
+
+  it('downloads every candidate', async () => {
+    setVideoProvider(
+      createStubProvider(
+        {},
+        {videos: [{uri: 'https://example.com/a.mp4'}, {uri: 'https://b'}]},
+      ),
+    );
+
+    const result = await generateVideo({...params, numberOfVideos: 2});
+
+    expect(result.candidates.map((c) => c.uri)).toEqual([
+      'https://example.com/a.mp4',
+      'https://b',
+    ]);
+    revokeResultUrls(result);
+  });
+
+  it('rejects invalid params before submitting', async () => {
+    const provider = createStubProvider();
+    setVideoProvider(provider);
+
+    await expect(
+      generateVideo({...params, prompt: '  '}),
+    ).rejects.toBeInstanceOf(InvalidInputError);
+    expect(provider.submit).not.toHaveBeenCalled();
+  });
+
+  it('stops at the hard budget limit', async () => {
+    const provider = createStubProvider();
+    setVideoProvider(provider);
+    vi.mocked(checkBudget).mockReturnValueOnce({
+      spentUsd: 10,
+      warning: null,
+      blocked: 'Over budget.',
+    });
+
+    await expect(generateVideo(params)).rejects.toBeInstanceOf(
+      BudgetExceededError,
+    );
+    expect(provider.submit).not.toHaveBeenCalled();
+  });
+
+  it('holds the estimate until the outcome is recorded', async () => {
+    setVideoProvider(createStubProvider());
+
+    const result = await generateVideo(params);
+    const release = vi.mocked(reserveUsage).mock.results[0].value;
+    await vi.waitFor(() => expect(release).toHaveBeenCalledOnce());
+
+    expect(reserveUsage).toHaveBeenCalledWith(params);
+    expect(release.mock.invocationCallOrder[0]).toBeGreaterThan(
+      vi.mocked(recordUsage).mock.invocationCallOrder[0],
+    );
+    revokeResultUrls(result);
+  });
+
+  it('retries a transient submit failure', async () => {
+    const submit = vi
+      .fn<VideoProvider['submit']>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue({name: 'operations/2', done: false});
+    setVideoProvider(createStubProvider({submit}));
+    const onProgress = vi.fn();
+
+    const result = await generateVideo(params, {
+      onProgress,
+      retryPolicies: {
+        submit: {...noDelay, retryOn: [VideoErrorKind.NETWORK]},
+      },
+    });
+
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenCalledWith(
+      expect.objectContaining({
+        phase: GenerationPhase.RETRYING,
+        retry: expect.objectContaining({step: 'submit', attempt: 1}),
+      }),
+    );
+    revokeResultUrls(result);
+  });
+
+  it('classifies a failed operation', async () => {
+    setVideoProvider(
+      createStubProvider({}, {videos: undefined, error: {message: 'boom'}}),
+    );
+
+    await expect(generateVideo(params)).rejects.toBeInstanceOf(
+      OperationFailedError,
+    );
+    expect(recordUsage).toHaveBeenCalledWith(
+      params,
+      expect.objectContaining({
+        status: UsageStatus.FAILED,
+        costUsd: estimateGenerationCost(params),
+      }),
+    );
+  });
+
+  it('charges nothing for a submit the API rejected', async () => {
+    setVideoProvider(
+      createStubProvider({
+        submit: vi.fn(async () => {
+          throw new InvalidInputError('Bad request.');
+        }),
+      }),
+    );
+
+    await expect(generateVideo(params)).rejects.toBeInstanceOf(
+      InvalidInputError,
+    );
+    expect(recordUsage).toHaveBeenCalledWith(
+      params,
+      expect.objectContaining({status: UsageStatus.FAILED, costUsd: 0}),
+    );
+  });
+
+  it('charges nothing for a render cancelled during submit', async () => {
+    const controller = new AbortController();
+    setVideoProvider(
+      createStubProvider({
+        submit: vi.fn(async () => {
+          controller.abort();
+          throw new DOMException('Cancelled', 'AbortError');
+        }),
+      }),
+    );
+
+    await expect(
+      generateVideo(params, {signal: controller.signal}),
+    ).rejects.toMatchObject({name: 'AbortError'});
+    expect(recordUsage).toHaveBeenCalledWith(
+      params,
+      expect.objectContaining({status: UsageStatus.CANCELLED, costUsd: 0}),
+    );
+  });
+
+  it('reports filtered output as a content policy error', async () => {
+    setVideoProvider(
+      createStubProvider(
+        {},
+        {videos: [], filteredReasons: ['Removed by the safety filter.']},
+      ),
+    );
+
+    await expect(generateVideo(params)).rejects.toBeInstanceOf(
+      ContentPolicyError,
+    );
+  });
+
+  it('passes cancellation through unclassified', async () => {
+    const controller = new AbortController();
+    setVideoProvider(
+      createStubProvider({
+        poll: vi.fn(async () => {
+          controller.abort();
+          throw new DOMException('Cancelled', 'AbortError');
+        }),
+      }),
+    );
+
+    await expect(
+      generateVideo(params, {signal: controller.signal}),
+    ).rejects.toMatchObject({name: 'AbortError'});
+    expect(recordUsage).toHaveBeenCalledWith(
+      params,
+      expect.objectContaining({
+        status: UsageStatus.CANCELLED,
+        costUsd: estimateGenerationCost(params),
+      }),
+    );
+  });
+});
@@ -2,199 +2,379 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import {GoogleGenAI} from '@google/genai';
 import {
-  GoogleGenAI,
-  Video,
-  VideoGenerationReferenceImage,
-  VideoGenerationReferenceType,
-} from '@google/genai';
-import {GenerateVideoParams, GenerationMode} from '../types';
+  GenerateVideoParams,
+  GenerateVideoResult,
+  GeneratedVideo,
+  GenerationPhase,
+  GenerationProgress,
+  UsageStatus,
+} from '../types';
+import {assertValidParams} from './capabilities';
+import {
+  BudgetExceededError,
+  CONTENT_POLICY_PATTERN,
+  ContentPolicyError,
+  OperationFailedError,
+  classifyError,
+} from './errors';
+import {estimateGenerationCost} from './pricing';
+import {getVideoProvider} from './providers';
+import {generateText} from './providers/geminiProvider';
+import {ProviderOperation, VideoProvider} from './providers/videoProvider';
+import {
+  RetryPolicies,
+  RetryStep,
+  resolveRetryPolicies,
+  wait,
+  withRetry,
+} from './retry';
+import {
+  checkBudget,
+  getMonthSpend,
+  recordUsage,
+  reserveUsage,
+} from './usageLedger';
+
+// Drives a generation through the active VideoProvider: submit, poll until
+// done, then download. The provider only makes the raw calls; retries,
+// progress events and error classification are handled here.
 
-// Per instructions, the API key must be obtained from process.env.API_KEY.
-// The key is passed directly to the GoogleGenAI constructor.
+// Checks a key with a cheap text request before it is stored. Throws a
+// classified error (AuthError for a rejected key) on failure.
+export const validateApiKey = async (apiKey: string): Promise<void> => {
+  try {
+    await generateText(new GoogleGenAI({apiKey}), 'Reply with OK.');
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
 
 export const generateVideoPrompt = async (): Promise<string> => {
   try {
-    // Initialize the client with the API key from environment variables.
-    const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
-    const response = await ai.models.generateContent({
-      model: 'gemini-flash-lite-latest',
-      contents:
-        'Generate a short, creative, and visually descriptive prompt for a video generation model. The prompt should be a single sentence and not be enclosed in quotes.',
-    });
-    return response.text.trim();
+    return await getVideoProvider().generatePrompt({kind: 'inspire'});
   } catch (error) {
     console.error('Failed to generate prompt:', error);
     throw new Error('Could not generate a prompt. Please try again.');
   }
 };
 
-export const generateVideo = async (
-  params: GenerateVideoParams,
-): Promise<{objectUrl: string; blob: Blob; uri: string; video: Video}> => {
-  console.log('Starting video generation with params:', params);
+export interface GenerateVideoOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  // Called with the operation name as soon as the job is accepted, so callers
+  // can persist it and resume polling after a reload.
+  onOperationStarted?: (operationName: string) => void;
+  signal?: AbortSignal;
+  // Overrides the default retry policy for individual steps.
+  retryPolicies?: Partial<RetryPolicies>;
+}
 
-  // Initialize the client with the API key from environment variables.
-  const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+type ProgressReporter = (
+  progress: Omit<GenerationProgress, 'elapsedMs'>,
+) => void;
 
-  const config: any = {
-    numberOfVideos: 1,
-    resolution: params.resolution,
-  };
+const createProgressReporter = (
+  options: GenerateVideoOptions,
+): ProgressReporter => {
+  const startedAt = Date.now();
+  return (progress) =>
+    options.onProgress?.({...progress, elapsedMs: Date.now() - startedAt});
+};
 
-  // Conditionally add aspect ratio. It's not used for extending videos.
-  if (params.mode !== GenerationMode.EXTEND_VIDEO) {
-    config.aspectRatio = params.aspectRatio;
-  }
+// Runs one step of the pipeline under its retry policy, reporting each retry
+// as a progress event.
+const runStep = <T>(
+  step: RetryStep,
+  task: () => Promise<T>,
+  options: GenerateVideoOptions,
+  report: ProgressReporter,
+): Promise<T> =>
+  withRetry(task, resolveRetryPolicies(options.retryPolicies)[step], {
+    step,
+    signal: options.signal,
+    onRetry: ({attempt, maxAttempts, delayMs, error}) =>
+      report({
+        phase: GenerationPhase.RETRYING,
+        retry: {step, attempt, maxAttempts, delayMs, reason: error.message},
+      }),
+  });
 
-  const promptParts = [];
-  if (params.prompt && params.prompt.trim()) {
-    promptParts.push(params.prompt.trim());
+const readBodyWithProgress = async (
+  res: Response,
+  onChunk: (bytesReceived: number, bytesTotal?: number) => void,
+): Promise<Blob> => {
+  const type = res.headers.get('Content-Type') ?? 'video/mp4';
+  const bytesTotal = Number(res.headers.get('Content-Length')) || undefined;
+  if (!res.body) {
+    return res.blob();
   }
-  if (params.musicPrompt && params.musicPrompt.trim()) {
-    promptParts.push(`Audio: ${params.musicPrompt.trim()}`);
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytesReceived = 0;
+  for (;;) {
+    const {done, value} = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    bytesReceived += value.length;
+    onChunk(bytesReceived, bytesTotal);
   }
-  const finalPrompt = promptParts.join('. ');
+  return new Blob(chunks, {type});
+};
 
-  const generateVideoPayload: any = {
-    model: params.model,
-    config: config,
-  };
+const pollAndDownload = async (
+  provider: VideoProvider,
+  initialOperation: ProviderOperation,
+  options: GenerateVideoOptions,
+  report: ProgressReporter,
+): Promise<GenerateVideoResult> => {
+  const {signal} = options;
+  let operation = initialOperation;
+  let pollCount = 0;
 
-  if (finalPrompt) {
-    generateVideoPayload.prompt = finalPrompt;
+  while (!operation.done) {
+    await wait(provider.pollIntervalMs, signal);
+    pollCount++;
+    console.log('...Generating...');
+    report({phase: GenerationPhase.POLLING, pollCount});
+    const operationName = operation.name;
+    operation = await runStep(
+      RetryStep.POLL,
+      () => provider.poll(operationName, signal),
+      options,
+      report,
+    );
   }
+  report({phase: GenerationPhase.OPERATION_DONE, pollCount});
 
-  if (params.mode === GenerationMode.IMAGE_TO_VIDEO) {
-    if (params.inputImage) {
-      generateVideoPayload.image = {
-        imageBytes: params.inputImage.base64,
-        mimeType: params.inputImage.file.type,
-      };
-      console.log(
-        `Generating with input image: ${params.inputImage.file.name}`,
+  if (operation.error) {
+    const {message} = operation.error;
+    console.error('Operation failed:', operation.error);
+    if (CONTENT_POLICY_PATTERN.test(message)) {
+      throw new ContentPolicyError(
+        'The request was blocked by the content policy.',
+        {details: message},
       );
-    } else {
-      throw new Error('An input image is required for Image to Video mode.');
     }
-  } else if (params.mode === GenerationMode.FRAMES_TO_VIDEO) {
-    if (params.startFrame) {
-      generateVideoPayload.image = {
-        imageBytes: params.startFrame.base64,
-        mimeType: params.startFrame.file.type,
-      };
-      console.log(
-        `Generating with start frame: ${params.startFrame.file.name}`,
+    throw new OperationFailedError('The render failed on the server.', {
+      details: message,
+    });
+  }
+
+  const videos = operation.videos;
+  if (!videos || videos.length === 0) {
+    if (operation.filteredReasons) {
+      throw new ContentPolicyError(
+        'The generated video was removed by the safety filter.',
+        {details: operation.filteredReasons.join(' ')},
       );
     }
+    throw new OperationFailedError('No videos were generated.');
+  }
 
-    const finalEndFrame = params.isLooping
-      ? params.startFrame
-      : params.endFrame;
-    if (finalEndFrame) {
-      generateVideoPayload.config.lastFrame = {
-        imageBytes: finalEndFrame.base64,
-        mimeType: finalEndFrame.file.type,
-      };
-      if (params.isLooping) {
-        console.log(
-          `Generating a looping video using start frame as end frame: ${finalEndFrame.file.name}`,
-        );
-      } else {
-        console.log(`Generating with end frame: ${finalEndFrame.file.name}`);
-      }
-    }
-  } else if (params.mode === GenerationMode.REFERENCES_TO_VIDEO) {
-    const referenceImagesPayload: VideoGenerationReferenceImage[] = [];
-
-    if (params.referenceImages) {
-      for (const img of params.referenceImages) {
-        console.log(`Adding reference image: ${img.file.name}`);
-        referenceImagesPayload.push({
-          image: {
-            imageBytes: img.base64,
-            mimeType: img.file.type,
-          },
-          referenceType: VideoGenerationReferenceType.ASSET,
-        });
-      }
-    }
+  if (videos.some((video) => !video.uri)) {
+    throw new OperationFailedError('Generated video is missing a URI.');
+  }
 
-    if (params.styleImage) {
-      console.log(
-        `Adding style image as a reference: ${params.styleImage.file.name}`,
+  // Candidates are downloaded one after another so progress stays readable.
+  const candidateCount = videos.length;
+  const candidates: GeneratedVideo[] = [];
+  try {
+    for (const [candidateIndex, videoObject] of videos.entries()) {
+      const candidate = {candidateIndex, candidateCount};
+      report({
+        phase: GenerationPhase.DOWNLOADING,
+        bytesReceived: 0,
+        ...candidate,
+      });
+      const videoBlob = await runStep(
+        RetryStep.DOWNLOAD,
+        async () =>
+          readBodyWithProgress(
+            await provider.download(videoObject, signal),
+            (bytesReceived, bytesTotal) =>
+              report({
+                phase: GenerationPhase.DOWNLOADING,
+                bytesReceived,
+                bytesTotal,
+                ...candidate,
+              }),
+          ),
+        options,
+        report,
       );
-      referenceImagesPayload.push({
-        image: {
-          imageBytes: params.styleImage.base64,
-          mimeType: params.styleImage.file.type,
-        },
-        referenceType: VideoGenerationReferenceType.STYLE,
+      report({
+        phase: GenerationPhase.BLOB_READY,
+        bytesReceived: videoBlob.size,
+        bytesTotal: videoBlob.size,
+        ...candidate,
+      });
+      candidates.push({
+        objectUrl: URL.createObjectURL(videoBlob),
+        blob: videoBlob,
+        uri: videoObject.uri as string,
+        video: videoObject,
       });
     }
-
-    if (referenceImagesPayload.length > 0) {
-      generateVideoPayload.config.referenceImages = referenceImagesPayload;
-    }
-  } else if (params.mode === GenerationMode.EXTEND_VIDEO) {
-    if (params.inputVideoObject) {
-      generateVideoPayload.video = params.inputVideoObject;
-      console.log(`Generating extension from input video object.`);
-    } else {
-      throw new Error('An input video object is required to extend a video.');
-    }
+  } catch (error) {
+    candidates.forEach((c) => URL.revokeObjectURL(c.objectUrl));
+    throw error;
   }
 
-  console.log('Submitting video generation request...', generateVideoPayload);
-  let operation = await ai.models.generateVideos(generateVideoPayload);
-  console.log('Video generation operation started:', operation);
+  return {...candidates[0], candidates};
+};
 
-  while (!operation.done) {
-    await new Promise((resolve) => setTimeout(resolve, 10000));
-    console.log('...Generating...');
-    operation = await ai.operations.getVideosOperation({operation: operation});
+// Frees the object URLs of every candidate in a result.
+export const revokeResultUrls = (result: GenerateVideoResult) =>
+  result.candidates.forEach((candidate) =>
+    URL.revokeObjectURL(candidate.objectUrl),
+  );
+
+// Rethrows failures as VideoGenerationErrors. Cancellation is passed through
+// untouched so callers can tell it apart from a real failure.
+const withClassifiedErrors = async <T>(
+  signal: AbortSignal | undefined,
+  task: () => Promise<T>,
+): Promise<T> => {
+  try {
+    return await task();
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
   }
+};
 
-  if (operation?.response) {
-    const videos = operation.response.generatedVideos;
+// Mock renders cost nothing and stay out of the ledger and the budget.
+const isBilled = (provider: VideoProvider) => provider.id !== 'mock';
 
-    if (!videos || videos.length === 0) {
-      throw new Error('No videos were generated.');
+// Reserves the render's estimate while it runs and writes its outcome to the
+// usage ledger. The task calls `markSubmitted` once the API has accepted the
+// request. From then on the full estimate is charged even if the render
+// fails or is cancelled; a request the API rejected, or one cancelled before
+// it answered, costs nothing. Ledger failures are logged and never affect
+// the render.
+const withUsageRecord = async (
+  provider: VideoProvider,
+  params: GenerateVideoParams,
+  signal: AbortSignal | undefined,
+  task: (markSubmitted: () => void) => Promise<GenerateVideoResult>,
+): Promise<GenerateVideoResult> => {
+  if (!isBilled(provider)) return task(() => {});
+  const startedAt = Date.now();
+  const release = reserveUsage(params);
+  let submitted = false;
+  const record = (
+    status: UsageStatus,
+    videoCount: number,
+    error?: string,
+  ) =>
+    recordUsage(params, {
+      status,
+      videoCount,
+      costUsd: submitted ? estimateGenerationCost(params) : 0,
+      wallClockMs: Date.now() - startedAt,
+      error,
+    })
+      .catch((e) => console.error('Failed to record usage:', e))
+      .finally(release);
+  try {
+    const result = await task(() => {
+      submitted = true;
+    });
+    record(UsageStatus.SUCCEEDED, result.candidates.length);
+    return result;
+  } catch (error) {
+    if (signal?.aborted) {
+      record(UsageStatus.CANCELLED, 0);
+    } else {
+      record(UsageStatus.FAILED, 0, classifyError(error).message);
     }
+    throw error;
+  }
+};
 
-    const firstVideo = videos[0];
-    if (!firstVideo?.video?.uri) {
-      throw new Error('Generated video is missing a URI.');
+const submitAndPoll = async (
+  params: GenerateVideoParams,
+  options: GenerateVideoOptions,
+): Promise<GenerateVideoResult> => {
+  const {onOperationStarted, signal} = options;
+  signal?.throwIfAborted();
+  assertValidParams(params);
+  const provider = getVideoProvider();
+  if (isBilled(provider)) {
+    // An unreadable ledger must not stop renders.
+    const spentUsd = await getMonthSpend().catch((error) => {
+      console.error('Failed to read usage ledger:', error);
+      return 0;
+    });
+    const {blocked} = checkBudget(spentUsd, params);
+    if (blocked) {
+      throw new BudgetExceededError(blocked);
     }
-    const videoObject = firstVideo.video;
+  }
+  const report = createProgressReporter(options);
+  console.log('Starting video generation with params:', params);
 
-    const url = videoObject.uri;
-    console.log('Fetching video from base URI:', url);
+  // Reserved before anything else is awaited, so a parallel check sees it.
+  return withUsageRecord(provider, params, signal, async (markSubmitted) => {
+    report({phase: GenerationPhase.SUBMITTING});
+    const operation = await runStep(
+      RetryStep.SUBMIT,
+      () => provider.submit(params, signal),
+      options,
+      report,
+    );
+    markSubmitted();
+    if (operation.name) {
+      onOperationStarted?.(operation.name);
+    }
+    report({phase: GenerationPhase.SUBMITTED});
 
-    const fetchUrl = new URL(url);
-    fetchUrl.searchParams.set('key', process.env.API_KEY as string);
-    console.log('Constructed fetch URL:', fetchUrl.href);
+    return pollAndDownload(provider, operation, options, report);
+  });
+};
 
-    const res = await fetch(fetchUrl.href);
+export const generateVideo = (
+  params: GenerateVideoParams,
+  options: GenerateVideoOptions = {},
+): Promise<GenerateVideoResult> =>
+  withClassifiedErrors(options.signal, () => submitAndPoll(params, options));
 
-    if (!res.ok) {
-      const errorBody = await res.text().catch(() => 'Could not read error response.');
-      console.error(
-        'Fetch failed. Status:',
-        res.status,
-        'Response Body:',
-        errorBody,
-      );
-      // Throw a generic error to avoid leaking details to the UI.
-      throw new Error('Video generation failed.');
-    }
+const reattachAndPoll = async (
+  provider: VideoProvider,
+  operationName: string,
+  options: GenerateVideoOptions,
+): Promise<GenerateVideoResult> => {
+  options.signal?.throwIfAborted();
+  console.log('Resuming video generation operation:', operationName);
+  const report = createProgressReporter(options);
 
-    const videoBlob = await res.blob();
-    const objectUrl = URL.createObjectURL(videoBlob);
+  const operation = await runStep(
+    RetryStep.POLL,
+    () => provider.poll(operationName, options.signal),
+    options,
+    report,
+  );
+  report({phase: GenerationPhase.SUBMITTED});
 
-    return {objectUrl, blob: videoBlob, uri: url, video: videoObject};
-  } else {
-    console.error('Operation failed:', operation);
-    throw new Error('Video generation failed.');
-  }
+  return pollAndDownload(provider, operation, options, report);
 };
+
+// Reattaches to an operation submitted earlier (e.g. before a page reload).
+// Pass the original params to record the outcome in the usage ledger.
+export const resumeVideoOperation = (
+  operationName: string,
+  options: GenerateVideoOptions = {},
+  params?: GenerateVideoParams,
+): Promise<GenerateVideoResult> =>
+  withClassifiedErrors(options.signal, () => {
+    const provider = getVideoProvider();
+    return params
+      ? withUsageRecord(provider, params, options.signal, (markSubmitted) => {
+          // The operation was accepted before the reload.
+          markSubmitted();
+          return reattachAndPoll(provider, operationName, options);
+        })
+      : reattachAndPoll(provider, operationName, options);
+  });
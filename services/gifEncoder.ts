@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A small GIF89a encoder so animated GIFs can be made without a server or a
+// third-party library. All frames share one global palette built by median
+// cut from sample frames; pixels are mapped to their nearest palette color.
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  // Flat RGB triplets, at most 256 colors.
+  palette: Uint8Array;
+  // 0 loops forever; undefined plays once.
+  loopCount?: number;
+}
+
+export interface GifEncoder {
+  // RGBA pixels of exactly width * height, as from getImageData.
+  addFrame: (rgba: Uint8ClampedArray, delayMs: number) => void;
+  finish: () => Blob;
+}
+
+const MAX_CODE_SIZE = 12;
+const SAMPLE_TARGET = 60_000;
+
+const createByteWriter = () => {
+  const chunks: Uint8Array[] = [];
+  let chunk = new Uint8Array(65536);
+  let length = 0;
+  const byte = (value: number) => {
+    if (length === chunk.length) {
+      chunks.push(chunk);
+      chunk = new Uint8Array(65536);
+      length = 0;
+    }
+    chunk[length++] = value & 0xff;
+  };
+  return {
+    byte,
+    word: (value: number) => {
+      byte(value & 0xff);
+      byte((value >> 8) & 0xff);
+    },
+    bytes: (values: ArrayLike<number>) => {
+      for (let i = 0; i < values.length; i++) byte(values[i]);
+    },
+    text: (value: string) => {
+      for (let i = 0; i < value.length; i++) byte(value.charCodeAt(i));
+    },
+    toBlob: () =>
+      new Blob([...chunks, chunk.slice(0, length)], {type: 'image/gif'}),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// GIF color tables hold 2^n entries.
+const getTableBits = (colorCount: number) =>
+  Math.max(1, Math.ceil(Math.log2(Math.max(2, colorCount))));
+
+interface ColorBox {
+  pixels: number[];
+  channel: number;
+  range: number;
+}
+
+const measureBox = (pixels: number[]): ColorBox => {
+  const min = [255, 255, 255];
+  const max = [0, 0, 0];
+  for (const pixel of pixels) {
+    for (let c = 0; c < 3; c++) {
+      const value = (pixel >> (16 - c * 8)) & 0xff;
+      if (value < min[c]) min[c] = value;
+      if (value > max[c]) max[c] = value;
+    }
+  }
+  const ranges = max.map((value, c) => value - min[c]);
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return {pixels, channel, range: ranges[channel]};
+};
+
+// Median cut over sampled pixels from one or more RGBA frames.
+export const buildPalette = (
+  frames: Uint8ClampedArray[],
+  colors: number,
+): Uint8Array => {
+  const totalPixels = frames.reduce((sum, f) => sum + f.length / 4, 0);
+  const step = Math.max(1, Math.floor(totalPixels / SAMPLE_TARGET));
+  const samples: number[] = [];
+  for (const frame of frames) {
+    for (let i = 0; i < frame.length; i += step * 4) {
+      samples.push((frame[i] << 16) | (frame[i + 1] << 8) | frame[i + 2]);
+    }
+  }
+  if (samples.length === 0) samples.push(0);
+
+  const boxes = [measureBox(samples)];
+  while (boxes.length < Math.min(256, colors)) {
+    let widest = -1;
+    boxes.forEach((box, i) => {
+      if (
+        box.pixels.length > 1 &&
+        box.range > 0 &&
+        (widest === -1 || box.range > boxes[widest].range)
+      ) {
+        widest = i;
+      }
+    });
+    if (widest === -1) break;
+    const {pixels, channel} = boxes[widest];
+    const shift = 16 - channel * 8;
+    pixels.sort((a, b) => ((a >> shift) & 0xff) - ((b >> shift) & 0xff));
+    const middle = pixels.length >> 1;
+    boxes.splice(
+      widest,
+      1,
+      measureBox(pixels.slice(0, middle)),
+      measureBox(pixels.slice(middle)),
+    );
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, i) => {
+    const sum = [0, 0, 0];
+    for (const pixel of box.pixels) {
+      sum[0] += (pixel >> 16) & 0xff;
+      sum[1] += (pixel >> 8) & 0xff;
+      sum[2] += pixel & 0xff;
+    }
+    for (let c = 0; c < 3; c++) {
+      palette[i * 3 + c] = Math.round(sum[c] / box.pixels.length);
+    }
+  });
+  return palette;
+};
+
+// Nearest-color lookups are cached per 15-bit color.
+const createColorMapper = (palette: Uint8Array) => {
+  const colorCount = palette.length / 3;
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colorCount; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+// Variable-width LZW, written in sub-blocks of up to 255 bytes.
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+  }
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+};
+
+export const createGifEncoder = (options: GifEncoderOptions): GifEncoder => {
+  const {width, height, palette, loopCount} = options;
+  const colorCount = Math.min(256, palette.length / 3);
+  const tableBits = getTableBits(colorCount);
+  const mapColor = createColorMapper(palette.subarray(0, colorCount * 3));
+  const out = createByteWriter();
+
+  out.text('GIF89a');
+  out.word(width);
+  out.word(height);
+  // Global color table present, 8-bit color resolution.
+  out.byte(0x80 | 0x70 | (tableBits - 1));
+  out.byte(0);
+  out.byte(0);
+  const table = new Uint8Array((1 << tableBits) * 3);
+  table.set(palette.subarray(0, colorCount * 3));
+  out.bytes(table);
+
+  if (loopCount !== undefined) {
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.text('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.word(loopCount);
+    out.byte(0);
+  }
+
+  const indices = new Uint8Array(width * height);
+
+  return {
+    addFrame: (rgba, delayMs) => {
+      if (rgba.length !== width * height * 4) {
+        throw new Error('GIF frame size does not match the encoder.');
+      }
+      for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+        indices[i] = mapColor(rgba[p], rgba[p + 1], rgba[p + 2]);
+      }
+      // Graphic control extension: delay in hundredths of a second.
+      out.byte(0x21);
+      out.byte(0xf9);
+      out.byte(4);
+      out.byte(0x04);
+      out.word(Math.max(2, Math.round(delayMs / 10)));
+      out.byte(0);
+      out.byte(0);
+      // Image descriptor covering the whole canvas.
+      out.byte(0x2c);
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0);
+      writeLzw(out, indices, Math.max(2, tableBits));
+    },
+    finish: () => {
+      out.byte(0x3b);
+      return out.toBlob();
+    },
+  };
+};
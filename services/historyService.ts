@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {HistoryEntry} from '../types';
+import {HISTORY_STORE, withStore} from './db';
+
+// Successful generations are kept in IndexedDB so that paid renders survive
+// "New Video" and page reloads.
+
+export const saveHistoryEntry = async (
+  entry: Omit<HistoryEntry, 'id' | 'createdAt'>,
+): Promise<HistoryEntry> => {
+  const fullEntry: HistoryEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+  };
+  await withStore(HISTORY_STORE, 'readwrite', (store) => store.put(fullEntry));
+  return fullEntry;
+};
+
+// Newest first.
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(
+    HISTORY_STORE,
+    'readonly',
+    (store) => store.index('createdAt').getAll(),
+  );
+  return entries.reverse();
+};
+
+export const getHistoryEntry = async (
+  id: string,
+): Promise<HistoryEntry | undefined> =>
+  withStore<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', (store) =>
+    store.get(id),
+  );
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+// Stores entries from a project file with their original ids and dates.
+// Importing the same project twice overwrites rather than duplicates.
+export const importHistoryEntries = async (
+  entries: HistoryEntry[],
+): Promise<void> => {
+  for (const entry of entries) {
+    await withStore(HISTORY_STORE, 'readwrite', (store) => store.put(entry));
+  }
+};
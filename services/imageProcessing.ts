@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AspectRatio, ImageFile, Resolution} from '../types';
+
+// Prepares uploaded images before they are base64-encoded into a request:
+// crops to the video's aspect ratio, downscales to the output resolution and
+// re-encodes as JPEG, so a 12 MB phone photo does not travel as-is.
+
+// Veo reads JPEG and PNG; everything is normalized to JPEG.
+const OUTPUT_MIME_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.92;
+// Anything bigger is refused before decoding to keep the tab responsive.
+export const MAX_SOURCE_BYTES = 40 * 1024 * 1024;
+// Below this the model has too little to work with.
+const MIN_SHORT_SIDE_PX = 360;
+// Aspect ratios closer than this count as matching.
+const ASPECT_TOLERANCE = 0.01;
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  bytes: number;
+  mimeType: string;
+}
+
+export interface PreprocessTarget {
+  // Omit to keep the image's own framing (reference images).
+  aspectRatio?: AspectRatio;
+  resolution: Resolution;
+}
+
+const targetSizes: Record<Resolution, {long: number; short: number}> = {
+  [Resolution.P720]: {long: 1280, short: 720},
+  [Resolution.P1080]: {long: 1920, short: 1080},
+};
+
+export const aspectRatioValue = (aspectRatio: AspectRatio) => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+};
+
+export const getTargetSize = (
+  aspectRatio: AspectRatio,
+  resolution: Resolution,
+) => {
+  const {long, short} = targetSizes[resolution];
+  return aspectRatioValue(aspectRatio) >= 1
+    ? {width: long, height: short}
+    : {width: short, height: long};
+};
+
+const decodeImage = async (file: Blob): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    // Most browsers other than Safari cannot decode HEIC.
+    throw new Error(
+      file.type.includes('heic') || file.type.includes('heif')
+        ? 'This browser cannot read HEIC images. Export the photo as JPEG or PNG first.'
+        : 'The file could not be read as an image.',
+    );
+  }
+};
+
+export const inspectImage = async (file: Blob): Promise<ImageInfo> => {
+  const bitmap = await decodeImage(file);
+  const info = {
+    width: bitmap.width,
+    height: bitmap.height,
+    bytes: file.size,
+    mimeType: file.type,
+  };
+  bitmap.close();
+  return info;
+};
+
+// Problems that stop an image from being used at all.
+export const checkSourceImage = (file: File): string | null => {
+  if (file.size > MAX_SOURCE_BYTES) {
+    return `The image is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_SOURCE_BYTES)}.`;
+  }
+  return null;
+};
+
+// Problems worth showing but not blocking on.
+export const describeImageIssues = (
+  info: ImageInfo,
+  target: PreprocessTarget,
+): string[] => {
+  const issues: string[] = [];
+  if (Math.min(info.width, info.height) < MIN_SHORT_SIDE_PX) {
+    issues.push(
+      `The image is only ${info.width}x${info.height}; results may be blurry.`,
+    );
+  }
+  if (target.aspectRatio && !matchesAspectRatio(info, target.aspectRatio)) {
+    issues.push(`The image will be cropped to ${target.aspectRatio}.`);
+  }
+  return issues;
+};
+
+export const matchesAspectRatio = (
+  size: {width: number; height: number},
+  aspectRatio: AspectRatio,
+) =>
+  Math.abs(size.width / size.height - aspectRatioValue(aspectRatio)) /
+    aspectRatioValue(aspectRatio) <
+  ASPECT_TOLERANCE;
+
+// The largest crop of the given aspect ratio, centered.
+export const centerCrop = (
+  size: {width: number; height: number},
+  aspectRatio: AspectRatio,
+): CropRect => {
+  const ratio = aspectRatioValue(aspectRatio);
+  const width = Math.min(size.width, size.height * ratio);
+  const height = width / ratio;
+  return {
+    x: (size.width - width) / 2,
+    y: (size.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+// Never upscales: a small source stays small rather than getting soft.
+export const getOutputSize = (
+  width: number,
+  height: number,
+  resolution: Resolution,
+) => {
+  const {long, short} = targetSizes[resolution];
+  const [maxWidth, maxHeight] = width >= height ? [long, short] : [short, long];
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+};
+
+// Start and end frames of different sizes make the model stretch one of
+// them; returns a warning when they differ.
+export const compareFrameSizes = async (
+  startFrame: ImageFile,
+  endFrame: ImageFile,
+): Promise<string | null> => {
+  const [start, end] = await Promise.all([
+    inspectImage(startFrame.file),
+    inspectImage(endFrame.file),
+  ]);
+  if (start.width === end.width && start.height === end.height) return null;
+  return `Start frame is ${start.width}x${start.height} but end frame is ${end.width}x${end.height}. Re-upload one so they match.`;
+};
+
+const blobToImageFile = (blob: Blob, name: string): Promise<ImageFile> =>
+  new Promise((resolve, reject) => {
+    const file = new File([blob], name, {type: blob.type});
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({file, base64: (reader.result as string).split(',')[1]});
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const preprocessImage = async (
+  file: File,
+  target: PreprocessTarget,
+  crop?: CropRect,
+): Promise<ImageFile> => {
+  const sourceError = checkSourceImage(file);
+  if (sourceError) throw new Error(sourceError);
+  const bitmap = await decodeImage(file);
+  try {
+    const region =
+      crop ??
+      (target.aspectRatio
+        ? centerCrop(bitmap, target.aspectRatio)
+        : {x: 0, y: 0, width: bitmap.width, height: bitmap.height});
+    const size = getOutputSize(region.width, region.height, target.resolution);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext('2d')!;
+    // JPEG has no alpha; transparent areas become black instead of garbage.
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, size.width, size.height);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(
+      bitmap,
+      region.x,
+      region.y,
+      region.width,
+      region.height,
+      0,
+      0,
+      size.width,
+      size.height,
+    );
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, OUTPUT_MIME_TYPE, OUTPUT_QUALITY),
+    );
+    if (!blob) throw new Error('The image could not be encoded.');
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    return blobToImageFile(blob, `${baseName}.jpg`);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideoParams,
+  GenerateVideoResult,
+  GenerationJob,
+  GenerationPhase,
+  GenerationProgress,
+  JobStatus,
+} from '../types';
+import {revokeResultUrls} from './geminiService';
+
+export interface JobRunContext {
+  onProgress: (progress: GenerationProgress) => void;
+  signal: AbortSignal;
+}
+
+export type JobRunner = (
+  job: GenerationJob,
+  context: JobRunContext,
+) => Promise<GenerateVideoResult>;
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  onJobSettled?: (job: GenerationJob) => void;
+  // Called with the raw error after `onJobSettled` for a failed job.
+  onJobFailed?: (job: GenerationJob, error: unknown) => void;
+}
+
+export interface JobQueue {
+  // Pass an operation name to reattach to a render submitted earlier.
+  submit: (
+    params: GenerateVideoParams,
+    operationName?: string,
+  ) => GenerationJob;
+  cancel: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+  getConcurrency: () => number;
+  setConcurrency: (concurrency: number) => void;
+  getJobs: () => GenerationJob[];
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const isJobActive = (job: GenerationJob) =>
+  job.status === JobStatus.POLLING || job.status === JobStatus.DOWNLOADING;
+
+export const isJobFinished = (job: GenerationJob) =>
+  job.status === JobStatus.DONE ||
+  job.status === JobStatus.FAILED ||
+  job.status === JobStatus.CANCELLED;
+
+// Runs submitted generations with a bounded number in flight. The job list is
+// replaced on every change so it can be used directly as a React snapshot.
+export const createJobQueue = (
+  runner: JobRunner,
+  options: JobQueueOptions = {},
+): JobQueue => {
+  let concurrency = Math.max(1, options.concurrency ?? 2);
+  let jobs: GenerationJob[] = [];
+  const listeners = new Set<() => void>();
+  const controllers = new Map<string, AbortController>();
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const findJob = (id: string) => jobs.find((job) => job.id === id);
+
+  const updateJob = (id: string, patch: Partial<GenerationJob>) => {
+    jobs = jobs.map((job) => (job.id === id ? {...job, ...patch} : job));
+    emit();
+  };
+
+  const settle = (id: string, patch: Partial<GenerationJob>) => {
+    // A job cancelled while running keeps its cancelled status and drops
+    // whatever it produced.
+    if (findJob(id)?.status !== JobStatus.CANCELLED) {
+      updateJob(id, {...patch, finishedAt: Date.now()});
+      const job = findJob(id);
+      if (job) options.onJobSettled?.(job);
+    } else if (patch.result) {
+      revokeResultUrls(patch.result);
+    }
+  };
+
+  const run = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    updateJob(job.id, {status: JobStatus.POLLING, startedAt: Date.now()});
+    try {
+      const result = await runner(job, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (findJob(job.id)?.status === JobStatus.CANCELLED) return;
+          const isDownloading =
+            progress.phase === GenerationPhase.DOWNLOADING ||
+            progress.phase === GenerationPhase.BLOB_READY;
+          updateJob(job.id, {
+            status: isDownloading ? JobStatus.DOWNLOADING : JobStatus.POLLING,
+            progress,
+          });
+        },
+      });
+      settle(job.id, {status: JobStatus.DONE, result});
+    } catch (error) {
+      console.error(`Job ${job.id} failed:`, error);
+      settle(job.id, {
+        status: JobStatus.FAILED,
+        error:
+          error instanceof Error ? error.message : 'Video generation failed.',
+      });
+      const failed = findJob(job.id);
+      if (failed?.status === JobStatus.FAILED) {
+        options.onJobFailed?.(failed, error);
+      }
+    } finally {
+      controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    let running = jobs.filter(isJobActive).length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status === JobStatus.QUEUED) {
+        running++;
+        run(job);
+      }
+    }
+  };
+
+  return {
+    submit: (params, operationName) => {
+      const job: GenerationJob = {
+        id: crypto.randomUUID(),
+        params,
+        operationName,
+        status: JobStatus.QUEUED,
+        submittedAt: Date.now(),
+      };
+      jobs = [...jobs, job];
+      emit();
+      pump();
+      return job;
+    },
+    cancel: (id) => {
+      const job = findJob(id);
+      if (!job || isJobFinished(job)) return;
+      updateJob(id, {status: JobStatus.CANCELLED, finishedAt: Date.now()});
+      controllers.get(id)?.abort();
+      pump();
+    },
+    remove: (id) => {
+      const job = findJob(id);
+      if (!job || !isJobFinished(job)) return;
+      if (job.result) revokeResultUrls(job.result);
+      jobs = jobs.filter((j) => j.id !== id);
+      emit();
+    },
+    clearFinished: () => {
+      for (const job of jobs.filter(isJobFinished)) {
+        if (job.result) revokeResultUrls(job.result);
+      }
+      jobs = jobs.filter((job) => !isJobFinished(job));
+      emit();
+    },
+    getConcurrency: () => concurrency,
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    getJobs: () => jobs,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
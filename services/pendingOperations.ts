@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams, PendingOperation} from '../types';
+import {PENDING_OPERATIONS_STORE, withStore} from './db';
+
+// Operations that were accepted by the API but have not been downloaded yet.
+// They are removed once the job settles, so anything left over after a reload
+// is an in-flight render that can be resumed.
+
+export const savePendingOperation = async (
+  operationName: string,
+  params: GenerateVideoParams,
+): Promise<void> => {
+  const record: PendingOperation = {
+    operationName,
+    params,
+    startedAt: Date.now(),
+  };
+  await withStore(PENDING_OPERATIONS_STORE, 'readwrite', (store) =>
+    store.put(record),
+  );
+};
+
+export const listPendingOperations = async (): Promise<PendingOperation[]> =>
+  withStore<PendingOperation[]>(PENDING_OPERATIONS_STORE, 'readonly', (store) =>
+    store.getAll(),
+  );
+
+export const deletePendingOperation = async (
+  operationName: string,
+): Promise<void> => {
+  await withStore(PENDING_OPERATIONS_STORE, 'readwrite', (store) =>
+    store.delete(operationName),
+  );
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams, VeoModel} from '../types';
+
+// List prices for planning only; the bill from Google is authoritative.
+// Rates can be overridden in the usage dashboard when Google changes them
+// or a contract rate applies.
+
+const STORAGE_KEY = 'charchiru.pricing';
+
+// Veo 3.1 renders 8 second clips unless told otherwise.
+export const DEFAULT_CLIP_SECONDS = 8;
+
+export const DEFAULT_PRICE_PER_SECOND_USD: Record<VeoModel, number> = {
+  [VeoModel.VEO_FAST]: 0.15,
+  [VeoModel.VEO]: 0.4,
+};
+
+export type PricingTable = Record<VeoModel, number>;
+
+// Stored overrides on top of the defaults; invalid entries are ignored.
+export const getPricing = (): PricingTable => {
+  const pricing = {...DEFAULT_PRICE_PER_SECOND_USD};
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    for (const model of Object.values(VeoModel)) {
+      const rate = stored?.[model];
+      if (typeof rate === 'number' && Number.isFinite(rate) && rate >= 0) {
+        pricing[model] = rate;
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load pricing:', error);
+  }
+  return pricing;
+};
+
+export const setPricing = (pricing: PricingTable) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(pricing));
+};
+
+export const resetPricing = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const priceSeconds = (model: VeoModel, seconds: number) =>
+  getPricing()[model] * seconds;
+
+export const getClipSeconds = (params: GenerateVideoParams) =>
+  params.durationSeconds ?? DEFAULT_CLIP_SECONDS;
+
+export const estimateGenerationCost = (params: GenerateVideoParams) =>
+  priceSeconds(
+    params.model,
+    getClipSeconds(params) * (params.numberOfVideos ?? 1),
+  );
+
+export const formatUsd = (amount: number) => `$${amount.toFixed(2)}`;
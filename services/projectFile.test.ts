@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerationMode,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {parseProjectFile} from './projectFile';
+
+const params = {
+  prompt: 'A kite over the dunes',
+  model: VeoModel.VEO,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.IMAGE_TO_VIDEO,
+  inputImage: 'media-1',
+  seed: 42,
+};
+
+const entry = {
+  id: 'entry-1',
+  createdAt: 1,
+  params,
+  uri: 'https://example.com/kite.mp4',
+  video: {uri: 'https://example.com/kite.mp4'},
+  result: 'media-2',
+};
+
+const manifest = {
+  format: 'charchiru-project',
+  version: 1,
+  exportedAt: 2,
+  settings: null,
+  entries: [entry],
+  media: {
+    'media-1': {name: 'kite.png', mimeType: 'image/png', data: 'AAE='},
+    'media-2': {name: 'kite.mp4', mimeType: 'video/mp4', data: 'AAEC'},
+  },
+};
+
+const parse = (value: unknown) =>
+  parseProjectFile(new Blob([JSON.stringify(value)]));
+
+describe('parseProjectFile', () => {
+  it('restores entries with their media', async () => {
+    const {settings, entries} = await parse(manifest);
+
+    expect(settings).toBeNull();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].params).toMatchObject({prompt: params.prompt, seed: 42});
+    expect(entries[0].params.inputImage?.file.name).toBe('kite.png');
+    expect(entries[0].params.inputImage?.base64).toBe('AAE=');
+    expect(entries[0].blob.size).toBe(3);
+  });
+
+  it('drops fields that are not part of the format', async () => {
+    const {entries} = await parse({
+      ...manifest,
+      entries: [
+        {
+          ...entry,
+          params: {...params, apiKey: 'secret'},
+          video: {...entry.video, videoBytes: 'AAAA'},
+        },
+      ],
+    });
+
+    expect(entries[0].params).not.toHaveProperty('apiKey');
+    expect(entries[0].video).not.toHaveProperty('videoBytes');
+  });
+
+  it.each([
+    ['invalid JSON', 'not json', 'The file is not valid JSON.'],
+    ['another format', {...manifest, format: 'zip'}, 'not a CharChiru project'],
+    ['a newer version', {...manifest, version: 99}, 'newer version'],
+    ['entries that are not a list', {...manifest, entries: {}}, 'entries'],
+    [
+      'an unknown model',
+      {...manifest, entries: [{...entry, params: {...params, model: 'veo-9'}}]},
+      'entries[0].params.model',
+    ],
+    [
+      'a missing media item',
+      {...manifest, entries: [{...entry, result: 'media-9'}]},
+      'entries[0].result',
+    ],
+    [
+      'a malformed audio design',
+      {
+        ...manifest,
+        settings: {...params, audioDesign: {soundEffects: 'boom'}},
+      },
+      'settings.audioDesign.soundEffects',
+    ],
+  ])('rejects %s', async (_label, value, message) => {
+    const file =
+      typeof value === 'string'
+        ? parseProjectFile(new Blob([value]))
+        : parse(value);
+    await expect(file).rejects.toThrow(message);
+  });
+});
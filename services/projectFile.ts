@@ -0,0 +1,510 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '@google/genai';
+import {
+  AspectRatio,
+  AudioDesign,
+  GenerateVideoParams,
+  GenerationMode,
+  HistoryEntry,
+  ImageFile,
+  PersonGeneration,
+  Resolution,
+  VeoModel,
+  VideoDerivation,
+  VideoFile,
+} from '../types';
+
+// `.charchiru` project files hand someone the exact setup behind a set of
+// videos. The file is a single JSON manifest; every image and video is
+// embedded once in `media` and referenced by id, so an image shared by
+// several renders is stored only once.
+//
+// Bump PROJECT_VERSION whenever the manifest shape changes and add a step to
+// `migrations` that upgrades the previous version, so old files keep loading.
+
+export const PROJECT_EXTENSION = '.charchiru';
+const PROJECT_FORMAT = 'charchiru-project';
+const PROJECT_VERSION = 1;
+
+interface ProjectMedia {
+  name: string;
+  mimeType: string;
+  // Base64 without a data: URL prefix.
+  data: string;
+}
+
+type MediaRef = string;
+
+// GenerateVideoParams with in-memory files swapped for media references.
+interface ProjectParams
+  extends Omit<
+    GenerateVideoParams,
+    | 'inputImage'
+    | 'startFrame'
+    | 'endFrame'
+    | 'referenceImages'
+    | 'styleImage'
+    | 'inputVideo'
+  > {
+  inputImage?: MediaRef;
+  startFrame?: MediaRef;
+  endFrame?: MediaRef;
+  referenceImages?: MediaRef[];
+  styleImage?: MediaRef;
+  inputVideo?: MediaRef;
+  // The entry this one extends, when that entry is in the same project.
+  extendsEntryId?: string;
+}
+
+interface ProjectEntry {
+  id: string;
+  createdAt: number;
+  params: ProjectParams;
+  uri: string;
+  video: Video;
+  result: MediaRef;
+  derivedFrom?: VideoDerivation;
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: number;
+  // The form settings at export time, if any.
+  settings: ProjectParams | null;
+  entries: ProjectEntry[];
+  media: Record<MediaRef, ProjectMedia>;
+}
+
+export interface LoadedProject {
+  settings: GenerateVideoParams | null;
+  entries: HistoryEntry[];
+}
+
+type RawManifest = Record<string, unknown>;
+
+// migrations[n] upgrades a version n manifest to version n + 1.
+const migrations: Record<number, (manifest: RawManifest) => RawManifest> = {};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToBytes = (data: string) =>
+  Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
+// Entries whose params extend an earlier video, followed back to the first
+// shot. Returned oldest first, ending with `entry`.
+export const getExtensionChain = (
+  entry: HistoryEntry,
+  entries: HistoryEntry[],
+): HistoryEntry[] => {
+  const chain = [entry];
+  let current = entry;
+  while (current.params.inputVideoObject?.uri) {
+    const parentUri = current.params.inputVideoObject.uri;
+    const parent = entries.find(
+      (e) => e.uri === parentUri && !chain.includes(e),
+    );
+    if (!parent) break;
+    chain.unshift(parent);
+    current = parent;
+  }
+  return chain;
+};
+
+const createMediaWriter = () => {
+  const media: Record<MediaRef, ProjectMedia> = {};
+  const refs = new Map<Blob, MediaRef>();
+  const add = async (blob: Blob, name: string): Promise<MediaRef> => {
+    const existing = refs.get(blob);
+    if (existing) return existing;
+    const ref = `media-${refs.size + 1}`;
+    refs.set(blob, ref);
+    media[ref] = {
+      name,
+      mimeType: blob.type || 'application/octet-stream',
+      data: await blobToBase64(blob),
+    };
+    return ref;
+  };
+  return {media, add};
+};
+
+// Inline `videoBytes` would duplicate the embedded result, so only the
+// reference to the video on Google's servers is kept.
+const stripVideoBytes = (video: Video): Video => {
+  const {videoBytes, ...rest} = video;
+  return rest;
+};
+
+const serializeParams = async (
+  params: GenerateVideoParams,
+  addMedia: (blob: Blob, name: string) => Promise<MediaRef>,
+  entries: HistoryEntry[],
+): Promise<ProjectParams> => {
+  const addImage = (image?: ImageFile | null) =>
+    image ? addMedia(image.file, image.file.name) : Promise.resolve(undefined);
+  const {
+    inputImage,
+    startFrame,
+    endFrame,
+    referenceImages,
+    styleImage,
+    inputVideo,
+    inputVideoObject,
+    ...rest
+  } = params;
+  const parent = inputVideoObject?.uri
+    ? entries.find((e) => e.uri === inputVideoObject.uri)
+    : undefined;
+  return {
+    ...rest,
+    inputImage: await addImage(inputImage),
+    startFrame: await addImage(startFrame),
+    endFrame: await addImage(endFrame),
+    referenceImages: referenceImages?.length
+      ? await Promise.all(
+          referenceImages.map((image) => addMedia(image.file, image.file.name)),
+        )
+      : undefined,
+    styleImage: await addImage(styleImage),
+    inputVideoObject: inputVideoObject
+      ? stripVideoBytes(inputVideoObject)
+      : undefined,
+    // The parent's result already holds the input video.
+    extendsEntryId: parent?.id,
+    inputVideo:
+      inputVideo && !parent
+        ? await addMedia(inputVideo.file, inputVideo.file.name)
+        : undefined,
+  };
+};
+
+export const buildProjectFile = async (
+  entries: HistoryEntry[],
+  settings: GenerateVideoParams | null,
+): Promise<Blob> => {
+  const {media, add} = createMediaWriter();
+  const projectEntries: ProjectEntry[] = [];
+  for (const entry of entries) {
+    projectEntries.push({
+      id: entry.id,
+      createdAt: entry.createdAt,
+      params: await serializeParams(entry.params, add, entries),
+      uri: entry.uri,
+      video: stripVideoBytes(entry.video),
+      result: await add(entry.blob, `${entry.id}.mp4`),
+      derivedFrom: entry.derivedFrom,
+    });
+  }
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    exportedAt: Date.now(),
+    settings: settings ? await serializeParams(settings, add, entries) : null,
+    entries: projectEntries,
+    media,
+  };
+  return new Blob([JSON.stringify(manifest)], {type: 'application/json'});
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const upgradeManifest = (data: unknown): RawManifest => {
+  if (
+    !isRecord(data) ||
+    data.format !== PROJECT_FORMAT ||
+    typeof data.version !== 'number'
+  ) {
+    throw new Error('The file is not a CharChiru project.');
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new Error('The project was made by a newer version of CharChiru.');
+  }
+  let manifest = data;
+  for (let version = data.version; version < PROJECT_VERSION; version++) {
+    manifest = {...migrations[version](manifest), version: version + 1};
+  }
+  return manifest;
+};
+
+// Readers for the upgraded manifest. Each checks one value and names the
+// field it came from, so a damaged file is rejected before anything is
+// imported.
+
+type Reader<T> = (value: unknown, field: string) => T;
+
+const damaged = (field: string, expected: string) =>
+  new Error(`The project is damaged: ${field} must be ${expected}.`);
+
+const readString: Reader<string> = (value, field) => {
+  if (typeof value !== 'string') throw damaged(field, 'text');
+  return value;
+};
+
+const readNumber: Reader<number> = (value, field) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw damaged(field, 'a number');
+  }
+  return value;
+};
+
+const readBoolean: Reader<boolean> = (value, field) => {
+  if (typeof value !== 'boolean') throw damaged(field, 'true or false');
+  return value;
+};
+
+const readEnum =
+  <T extends string>(values: T[]): Reader<T> =>
+  (value, field) => {
+    if (!values.includes(value as T)) {
+      throw damaged(field, `one of ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+
+const readList =
+  <T>(read: Reader<T>): Reader<T[]> =>
+  (value, field) => {
+    if (!Array.isArray(value)) throw damaged(field, 'a list');
+    return value.map((item, i) => read(item, `${field}[${i}]`));
+  };
+
+const readObject = (value: unknown, field: string) => {
+  if (!isRecord(value)) throw damaged(field, 'an object');
+  return value;
+};
+
+// Missing and null values both read as undefined.
+const readOptional = <T>(
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  read: Reader<T>,
+): T | undefined =>
+  record[key] === undefined || record[key] === null
+    ? undefined
+    : read(record[key], `${path}.${key}`);
+
+const readMedia = (value: unknown, field: string): ProjectMedia => {
+  const media = readObject(value, field);
+  return {
+    name: readString(media.name, `${field}.name`),
+    mimeType: readString(media.mimeType, `${field}.mimeType`),
+    data: readString(media.data, `${field}.data`),
+  };
+};
+
+// Only the remote reference is kept; see stripVideoBytes.
+const readVideo = (value: unknown, field: string): Video => {
+  const video = readObject(value, field);
+  return {
+    uri: readOptional(video, 'uri', field, readString),
+    mimeType: readOptional(video, 'mimeType', field, readString),
+  };
+};
+
+const readAudioDesign = (value: unknown, field: string): AudioDesign => {
+  const design = readObject(value, field);
+  const read = (key: string) =>
+    readOptional(design, key, field, readString) ?? '';
+  return {
+    musicGenre: read('musicGenre'),
+    musicMood: read('musicMood'),
+    musicTempo: read('musicTempo'),
+    ambience: read('ambience'),
+    soundEffects:
+      readOptional(design, 'soundEffects', field, readList(readString)) ?? [],
+    dialogue:
+      readOptional(
+        design,
+        'dialogue',
+        field,
+        readList((item, itemField) => {
+          const line = readObject(item, itemField);
+          return {
+            speaker: readString(line.speaker, `${itemField}.speaker`),
+            line: readString(line.line, `${itemField}.line`),
+          };
+        }),
+      ) ?? [],
+  };
+};
+
+const readDerivation = (value: unknown, field: string): VideoDerivation => {
+  const derivation = readObject(value, field);
+  const edit = readObject(derivation.edit, `${field}.edit`);
+  return {
+    sourceUri: readString(derivation.sourceUri, `${field}.sourceUri`),
+    edit: {
+      inPoint: readNumber(edit.inPoint, `${field}.edit.inPoint`),
+      outPoint: readNumber(edit.outPoint, `${field}.edit.outPoint`),
+      speed: readNumber(edit.speed, `${field}.edit.speed`),
+      muted: readBoolean(edit.muted, `${field}.edit.muted`),
+    },
+  };
+};
+
+const readParams = (
+  value: unknown,
+  field: string,
+  readRef: Reader<MediaRef>,
+): ProjectParams => {
+  const params = readObject(value, field);
+  const optional = <T>(key: string, read: Reader<T>) =>
+    readOptional(params, key, field, read);
+  return {
+    prompt: optional('prompt', readString) ?? '',
+    model: readEnum(Object.values(VeoModel))(params.model, `${field}.model`),
+    aspectRatio: readEnum(Object.values(AspectRatio))(
+      params.aspectRatio,
+      `${field}.aspectRatio`,
+    ),
+    resolution: readEnum(Object.values(Resolution))(
+      params.resolution,
+      `${field}.resolution`,
+    ),
+    mode: readEnum(Object.values(GenerationMode))(params.mode, `${field}.mode`),
+    inputImage: optional('inputImage', readRef),
+    startFrame: optional('startFrame', readRef),
+    endFrame: optional('endFrame', readRef),
+    referenceImages: optional('referenceImages', readList(readRef)),
+    styleImage: optional('styleImage', readRef),
+    inputVideo: optional('inputVideo', readRef),
+    inputVideoObject: optional('inputVideoObject', readVideo),
+    extendsEntryId: optional('extendsEntryId', readString),
+    isLooping: optional('isLooping', readBoolean),
+    musicPrompt: optional('musicPrompt', readString),
+    audioDesign: optional('audioDesign', readAudioDesign),
+    numberOfVideos: optional('numberOfVideos', readNumber),
+    negativePrompt: optional('negativePrompt', readString),
+    seed: optional('seed', readNumber),
+    lockSeed: optional('lockSeed', readBoolean),
+    durationSeconds: optional('durationSeconds', readNumber),
+    personGeneration: optional(
+      'personGeneration',
+      readEnum(Object.values(PersonGeneration)),
+    ),
+    generateAudio: optional('generateAudio', readBoolean),
+  };
+};
+
+const readManifest = (data: RawManifest): ProjectManifest => {
+  const rawMedia = readObject(data.media ?? {}, 'media');
+  const media: Record<MediaRef, ProjectMedia> = {};
+  for (const [ref, item] of Object.entries(rawMedia)) {
+    media[ref] = readMedia(item, `media.${ref}`);
+  }
+  const readRef: Reader<MediaRef> = (value, field) => {
+    const ref = readString(value, field);
+    if (!Object.hasOwn(media, ref)) {
+      throw damaged(field, 'a media item in the project');
+    }
+    return ref;
+  };
+  const entries = readList((value, field): ProjectEntry => {
+    const entry = readObject(value, field);
+    return {
+      id: readString(entry.id, `${field}.id`),
+      createdAt: readNumber(entry.createdAt, `${field}.createdAt`),
+      params: readParams(entry.params, `${field}.params`, readRef),
+      uri: readString(entry.uri, `${field}.uri`),
+      video: readVideo(entry.video, `${field}.video`),
+      result: readRef(entry.result, `${field}.result`),
+      derivedFrom: readOptional(entry, 'derivedFrom', field, readDerivation),
+    };
+  })(data.entries ?? [], 'entries');
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    exportedAt: readOptional(data, 'exportedAt', 'manifest', readNumber) ?? 0,
+    settings:
+      data.settings === undefined || data.settings === null
+        ? null
+        : readParams(data.settings, 'settings', readRef),
+    entries,
+    media,
+  };
+};
+
+const createMediaReader = (media: ProjectManifest['media']) => {
+  const files = new Map<MediaRef, File>();
+  const getFile = (ref: MediaRef): File => {
+    const cached = files.get(ref);
+    if (cached) return cached;
+    const item = media[ref];
+    if (!item) {
+      throw new Error(`The project is missing media "${ref}".`);
+    }
+    const file = new File([base64ToBytes(item.data)], item.name, {
+      type: item.mimeType,
+    });
+    files.set(ref, file);
+    return file;
+  };
+  const getImage = (ref?: MediaRef): ImageFile | undefined =>
+    ref ? {file: getFile(ref), base64: media[ref].data} : undefined;
+  const getVideo = (ref?: MediaRef): VideoFile | undefined =>
+    ref ? {file: getFile(ref), base64: media[ref].data} : undefined;
+  return {getFile, getImage, getVideo};
+};
+
+export const parseProjectFile = async (file: Blob): Promise<LoadedProject> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const manifest = readManifest(upgradeManifest(data));
+  const {getFile, getImage, getVideo} = createMediaReader(manifest.media);
+  const resultRefs = new Map(
+    manifest.entries.map((entry) => [entry.id, entry.result]),
+  );
+
+  const restoreParams = ({
+    inputImage,
+    startFrame,
+    endFrame,
+    referenceImages,
+    styleImage,
+    inputVideo,
+    extendsEntryId,
+    ...rest
+  }: ProjectParams): GenerateVideoParams => {
+    const parentResult = extendsEntryId
+      ? resultRefs.get(extendsEntryId)
+      : undefined;
+    return {
+      ...rest,
+      inputImage: getImage(inputImage),
+      startFrame: getImage(startFrame),
+      endFrame: getImage(endFrame),
+      referenceImages: referenceImages?.map((ref) => getImage(ref)!),
+      styleImage: getImage(styleImage),
+      inputVideo: getVideo(inputVideo ?? parentResult),
+    };
+  };
+
+  return {
+    settings: manifest.settings ? restoreParams(manifest.settings) : null,
+    entries: manifest.entries.map((entry) => ({
+      id: entry.id,
+      createdAt: entry.createdAt,
+      params: restoreParams(entry.params),
+      blob: getFile(entry.result),
+      uri: entry.uri,
+      video: entry.video,
+      derivedFrom: entry.derivedFrom,
+    })),
+  };
+};
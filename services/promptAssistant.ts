@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerationMode, ImageFile, PromptRewrite} from '../types';
+import {REWRITE_FIELDS} from './promptInstructions';
+import {getVideoProvider} from './providers';
+
+// Text-model helpers that improve prompts before anything is rendered. They
+// go through the active provider, so the proxy and mock backends work too.
+
+const toInlineImage = (image: ImageFile) => ({
+  data: image.base64,
+  mimeType: image.file.type,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRewrite = (value: unknown): value is PromptRewrite =>
+  isRecord(value) &&
+  REWRITE_FIELDS.every((field) => typeof value[field] === 'string') &&
+  typeof value.prompt === 'string' &&
+  !!value.prompt.trim();
+
+export const enhancePrompt = async (
+  prompt: string,
+  mode: GenerationMode,
+  images: ImageFile[] = [],
+): Promise<PromptRewrite[]> => {
+  let rewrites: PromptRewrite[];
+  try {
+    const text = await getVideoProvider().generatePrompt(
+      {kind: 'enhance', prompt, mode},
+      images.map(toInlineImage),
+    );
+    const data: unknown = JSON.parse(text);
+    rewrites =
+      isRecord(data) && Array.isArray(data.rewrites)
+        ? data.rewrites.filter(isRewrite)
+        : [];
+  } catch (error) {
+    console.error('Failed to enhance prompt:', error);
+    throw new Error('Could not enhance the prompt. Please try again.');
+  }
+  if (rewrites.length === 0) {
+    throw new Error('No usable rewrites came back. Please try again.');
+  }
+  return rewrites.map((rewrite) => ({...rewrite, prompt: rewrite.prompt.trim()}));
+};
+
+export const describeImage = async (image: ImageFile): Promise<string> => {
+  try {
+    return await getVideoProvider().generatePrompt({kind: 'describe'}, [
+      toInlineImage(image),
+    ]);
+  } catch (error) {
+    console.error('Failed to describe image:', error);
+    throw new Error('Could not describe the image. Please try again.');
+  }
+};
+
+export type WordDiffPart = {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+// Word-level diff (longest common subsequence) for showing what a rewrite
+// changed. Prompts are short, so the quadratic table is fine.
+export const diffWords = (before: string, after: string): WordDiffPart[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const lengths = Array.from({length: a.length + 1}, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const parts: WordDiffPart[] = [];
+  const push = (kind: WordDiffPart['kind'], word: string) => {
+    const last = parts.at(-1);
+    if (last?.kind === kind) {
+      last.text += ` ${word}`;
+    } else {
+      parts.push({kind, text: word});
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  a.slice(i).forEach((word) => push('removed', word));
+  b.slice(j).forEach((word) => push('added', word));
+  return parts;
+};
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Schema, Type} from '@google/genai';
+import {GenerationMode} from '../types';
+import {PromptRequestOptions, PromptTask} from './providers/videoProvider';
+
+// The instructions behind the prompt helpers. They are built from a
+// PromptTask wherever the text model is called, including the proxy server,
+// so no backend has to accept instruction text from a client.
+
+const REWRITE_COUNT = 3;
+
+export const REWRITE_FIELDS = [
+  'label',
+  'subject',
+  'camera',
+  'lighting',
+  'style',
+  'audio',
+  'prompt',
+] as const;
+
+const REWRITES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    rewrites: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(
+          REWRITE_FIELDS.map((field) => [field, {type: Type.STRING}]),
+        ),
+        required: [...REWRITE_FIELDS],
+        propertyOrdering: [...REWRITE_FIELDS],
+      },
+    },
+  },
+  required: ['rewrites'],
+};
+
+const modeGuidance: Record<GenerationMode, string> = {
+  [GenerationMode.TEXT_TO_VIDEO]:
+    'The video is generated from the prompt alone.',
+  [GenerationMode.IMAGE_TO_VIDEO]:
+    'The attached image is the first frame. Describe how it should come to life; do not re-describe what is already visible.',
+  [GenerationMode.FRAMES_TO_VIDEO]:
+    'The attached images are the first and last frames. Describe the motion and transition between them.',
+  [GenerationMode.REFERENCES_TO_VIDEO]:
+    'The attached images are references for subjects and style that must appear in the video.',
+  [GenerationMode.EXTEND_VIDEO]:
+    'The prompt describes what happens next in an existing video.',
+};
+
+const INSPIRE_INSTRUCTION =
+  'Generate a short, creative, and visually descriptive prompt for a video generation model. The prompt should be a single sentence and not be enclosed in quotes.';
+
+const buildEnhanceInstruction = (prompt: string, mode: GenerationMode) =>
+  [
+    `Rewrite the following prompt for the Veo video generation model in ${REWRITE_COUNT} distinct directions.`,
+    modeGuidance[mode],
+    'For each rewrite give a short label for the direction, then the subject and action, camera movement and framing, lighting, visual style, and audio cues (music, ambience, sound effects or dialogue).',
+    'Finally combine them into "prompt": one vivid paragraph of at most 80 words that keeps the intent of the original.',
+    prompt.trim()
+      ? `Original prompt: ${prompt.trim()}`
+      : 'There is no original prompt yet; propose one from the attached images.',
+  ].join('\n');
+
+const DESCRIBE_INSTRUCTION =
+  'Look at this image and write a single-sentence prompt for a video model that animates it: describe the subject, a natural motion, and a camera movement. Do not describe what is already visible in detail, and do not enclose the prompt in quotes.';
+
+// The instruction text and request options for a task.
+export const buildPromptInstruction = (
+  task: PromptTask,
+): {instruction: string; options: PromptRequestOptions} => {
+  switch (task.kind) {
+    case 'inspire':
+      return {instruction: INSPIRE_INSTRUCTION, options: {}};
+    case 'enhance':
+      return {
+        instruction: buildEnhanceInstruction(task.prompt, task.mode),
+        options: {responseSchema: REWRITES_SCHEMA},
+      };
+    case 'describe':
+      return {instruction: DESCRIBE_INSTRUCTION, options: {}};
+  }
+};
@@ -0,0 +1,276 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideosOperation,
+  GoogleGenAI,
+  Video,
+  VideoGenerationReferenceImage,
+  VideoGenerationReferenceType,
+} from '@google/genai';
+import {GenerateVideoParams, GenerationMode} from '../../types';
+import {getApiKey} from '../apiKeyStore';
+import {formatAudioDesign} from '../audioDesign';
+import {getCapabilities} from '../capabilities';
+import {AuthError, DownloadFailedError, QuotaError} from '../errors';
+import {buildPromptInstruction} from '../promptInstructions';
+import {
+  PromptRequestOptions,
+  ProviderOperation,
+  VideoProvider,
+} from './videoProvider';
+
+const PROMPT_MODEL = 'gemini-flash-lite-latest';
+
+// Sends one instruction to the text model. Only code in this repo builds the
+// instruction; clients send a PromptTask instead.
+export const generateText = async (
+  ai: GoogleGenAI,
+  instruction: string,
+  options: PromptRequestOptions = {},
+): Promise<string> => {
+  const images = options.images ?? [];
+  const response = await ai.models.generateContent({
+    model: PROMPT_MODEL,
+    contents:
+      images.length > 0
+        ? [...images.map((inlineData) => ({inlineData})), {text: instruction}]
+        : instruction,
+    config: options.responseSchema
+      ? {
+          responseMimeType: 'application/json',
+          responseSchema: options.responseSchema,
+        }
+      : undefined,
+  });
+  return response.text.trim();
+};
+
+// Builds the request body for ai.models.generateVideos. The proxy server
+// calls it too, with params parsed from the client's request. Required
+// inputs are checked by validateParams before this is called.
+export const buildGenerateVideosPayload = (params: GenerateVideoParams) => {
+  const config: any = {
+    numberOfVideos: params.numberOfVideos ?? 1,
+    resolution: params.resolution,
+  };
+
+  const capabilities = getCapabilities(params.mode, params.model);
+
+  // Conditionally add aspect ratio. It's not used for extending videos.
+  if (!capabilities?.aspectRatioFromInput) {
+    config.aspectRatio = params.aspectRatio;
+  }
+  if (capabilities?.supportsNegativePrompt && params.negativePrompt?.trim()) {
+    config.negativePrompt = params.negativePrompt.trim();
+  }
+  if (capabilities?.supportsSeed && typeof params.seed === 'number') {
+    config.seed = params.seed;
+  }
+  if (params.durationSeconds !== undefined) {
+    config.durationSeconds = params.durationSeconds;
+  }
+  if (params.personGeneration) {
+    config.personGeneration = params.personGeneration;
+  }
+  if (
+    capabilities?.supportsAudioToggle &&
+    params.generateAudio !== undefined
+  ) {
+    config.generateAudio = params.generateAudio;
+  }
+
+  const promptParts = [];
+  if (params.prompt && params.prompt.trim()) {
+    promptParts.push(params.prompt.trim());
+  }
+  const audioSuffix = formatAudioDesign(params);
+  if (audioSuffix) {
+    promptParts.push(audioSuffix);
+  }
+  const finalPrompt = promptParts.join('. ');
+
+  const generateVideoPayload: any = {
+    model: params.model,
+    config: config,
+  };
+
+  if (finalPrompt) {
+    generateVideoPayload.prompt = finalPrompt;
+  }
+
+  if (params.mode === GenerationMode.IMAGE_TO_VIDEO) {
+    if (params.inputImage) {
+      generateVideoPayload.image = {
+        imageBytes: params.inputImage.base64,
+        mimeType: params.inputImage.file.type,
+      };
+      console.log(
+        `Generating with input image: ${params.inputImage.file.name}`,
+      );
+    }
+  } else if (params.mode === GenerationMode.FRAMES_TO_VIDEO) {
+    if (params.startFrame) {
+      generateVideoPayload.image = {
+        imageBytes: params.startFrame.base64,
+        mimeType: params.startFrame.file.type,
+      };
+      console.log(
+        `Generating with start frame: ${params.startFrame.file.name}`,
+      );
+    }
+
+    const finalEndFrame = params.isLooping
+      ? params.startFrame
+      : params.endFrame;
+    if (finalEndFrame) {
+      generateVideoPayload.config.lastFrame = {
+        imageBytes: finalEndFrame.base64,
+        mimeType: finalEndFrame.file.type,
+      };
+      if (params.isLooping) {
+        console.log(
+          `Generating a looping video using start frame as end frame: ${finalEndFrame.file.name}`,
+        );
+      } else {
+        console.log(`Generating with end frame: ${finalEndFrame.file.name}`);
+      }
+    }
+  } else if (params.mode === GenerationMode.REFERENCES_TO_VIDEO) {
+    const referenceImagesPayload: VideoGenerationReferenceImage[] = [];
+
+    if (params.referenceImages) {
+      for (const img of params.referenceImages) {
+        console.log(`Adding reference image: ${img.file.name}`);
+        referenceImagesPayload.push({
+          image: {
+            imageBytes: img.base64,
+            mimeType: img.file.type,
+          },
+          referenceType: VideoGenerationReferenceType.ASSET,
+        });
+      }
+    }
+
+    if (params.styleImage) {
+      console.log(
+        `Adding style image as a reference: ${params.styleImage.file.name}`,
+      );
+      referenceImagesPayload.push({
+        image: {
+          imageBytes: params.styleImage.base64,
+          mimeType: params.styleImage.file.type,
+        },
+        referenceType: VideoGenerationReferenceType.STYLE,
+      });
+    }
+
+    if (referenceImagesPayload.length > 0) {
+      generateVideoPayload.config.referenceImages = referenceImagesPayload;
+    }
+  } else if (params.mode === GenerationMode.EXTEND_VIDEO) {
+    if (params.inputVideoObject) {
+      generateVideoPayload.video = params.inputVideoObject;
+      console.log(`Generating extension from input video object.`);
+    }
+  }
+
+  return generateVideoPayload;
+};
+
+export const toProviderOperation = (
+  operation: GenerateVideosOperation,
+): ProviderOperation => ({
+  name: operation.name ?? '',
+  done: !!operation.done,
+  error: operation.error
+    ? {message: String(operation.error.message ?? '')}
+    : undefined,
+  videos: operation.response?.generatedVideos
+    ?.map((generated) => generated.video)
+    .filter((video): video is Video => !!video),
+  filteredReasons:
+    operation.response?.raiMediaFilteredCount ||
+    operation.response?.raiMediaFilteredReasons?.length
+      ? (operation.response.raiMediaFilteredReasons ?? [])
+      : undefined,
+});
+
+export interface GeminiProviderOptions {
+  // A fixed key (e.g. on the proxy server). Without one, the key is looked
+  // up from apiKeyStore on every call so changes apply immediately.
+  apiKey?: string;
+}
+
+export const createGeminiProvider = (
+  options: GeminiProviderOptions = {},
+): VideoProvider => {
+  const resolveApiKey = () => options.apiKey ?? getApiKey();
+  const createClient = () => new GoogleGenAI({apiKey: resolveApiKey()});
+
+  return {
+    id: 'gemini',
+    pollIntervalMs: 10000,
+    requiresApiKey: true,
+
+    submit: async (params, signal) => {
+      const ai = createClient();
+      const generateVideoPayload = buildGenerateVideosPayload(params);
+      generateVideoPayload.config.abortSignal = signal;
+      console.log('Submitting video generation request...', generateVideoPayload);
+      const operation = await ai.models.generateVideos(generateVideoPayload);
+      console.log('Video generation operation started:', operation);
+      return toProviderOperation(operation);
+    },
+
+    poll: async (operationName, signal) => {
+      const ai = createClient();
+      const operation = new GenerateVideosOperation();
+      operation.name = operationName;
+      return toProviderOperation(
+        await ai.operations.getVideosOperation({
+          operation,
+          config: {abortSignal: signal},
+        }),
+      );
+    },
+
+    download: async (video, signal) => {
+      const url = video.uri as string;
+      console.log('Fetching video from base URI:', url);
+      const fetchUrl = new URL(url);
+      fetchUrl.searchParams.set('key', resolveApiKey() as string);
+
+      const res = await fetch(fetchUrl.href, {signal});
+
+      if (!res.ok) {
+        const errorBody = await res.text().catch(() => 'Could not read error response.');
+        console.error(
+          'Fetch failed. Status:',
+          res.status,
+          'Response Body:',
+          errorBody,
+        );
+        // The body may echo the request URL, so details are sanitized.
+        const details = {details: errorBody, status: res.status};
+        if (res.status === 401 || res.status === 403) {
+          throw new AuthError('The API key was rejected.', details);
+        }
+        if (res.status === 429) {
+          throw new QuotaError('Quota or rate limit exceeded.', details);
+        }
+        throw new DownloadFailedError(
+          'The finished video could not be downloaded.',
+          details,
+        );
+      }
+      return res;
+    },
+
+    generatePrompt: async (task, images = []) => {
+      const {instruction, options} = buildPromptInstruction(task);
+      return generateText(createClient(), instruction, {...options, images});
+    },
+  };
+};
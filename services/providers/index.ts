@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {createGeminiProvider} from './geminiProvider';
+import {createMockProvider} from './mockProvider';
+import {createProxyProvider} from './proxyProvider';
+import {VideoProvider} from './videoProvider';
+
+// The backend is chosen with VIDEO_PROVIDER in .env.local: "gemini" (the
+// default), "proxy" to go through the key-holding server in server/, or
+// "mock" to run fully offline.
+
+const createConfiguredProvider = (): VideoProvider => {
+  switch (process.env.VIDEO_PROVIDER) {
+    case 'mock':
+      return createMockProvider({
+        latencyMs: Number(process.env.MOCK_LATENCY_MS) || undefined,
+        transientFailureRate:
+          Number(process.env.MOCK_FAILURE_RATE) || undefined,
+      });
+    case 'proxy':
+      return createProxyProvider();
+    default:
+      return createGeminiProvider();
+  }
+};
+
+let activeProvider: VideoProvider | null = null;
+
+export const getVideoProvider = (): VideoProvider => {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider();
+  }
+  return activeProvider;
+};
+
+// Swaps the backend at runtime, e.g. to inject a mock in tests.
+export const setVideoProvider = (provider: VideoProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  Resolution,
+  VeoModel,
+} from '../../types';
+import {
+  AuthError,
+  ContentPolicyError,
+  DownloadFailedError,
+  InvalidInputError,
+  OperationFailedError,
+  QuotaError,
+} from '../errors';
+import {GenerateVideoOptions, generateVideo} from '../geminiService';
+import {RetryPolicy} from '../retry';
+import {checkBudget, recordUsage, reserveUsage} from '../usageLedger';
+import {setVideoProvider} from './index';
+import {createMockProvider} from './mockProvider';
+
+vi.mock('../usageLedger', () => ({
+  getMonthSpend: vi.fn(async () => 0),
+  checkBudget: vi.fn(() => ({spentUsd: 0, warning: null, blocked: null})),
+  recordUsage: vi.fn(async () => ({})),
+  reserveUsage: vi.fn(() => vi.fn()),
+}));
+
+const params: GenerateVideoParams = {
+  prompt: 'A paper boat in the rain',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+const noRetry: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  backoffMultiplier: 1,
+  jitter: 0,
+  retryOn: [],
+};
+
+const options: GenerateVideoOptions = {
+  retryPolicies: {submit: noRetry, poll: noRetry, download: noRetry},
+};
+
+// The mock waits on timers between steps; fake timers run them instantly.
+const run = async (prompt: string) => {
+  const result = generateVideo({...params, prompt}, options).then(
+    (value) => ({value}),
+    (error: unknown) => ({error}),
+  );
+  await vi.runAllTimersAsync();
+  return result;
+};
+
+describe('mock provider through generateVideo', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setVideoProvider(createMockProvider({latencyMs: 0}));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('renders a clip for every candidate', async () => {
+    const outcome = generateVideo({...params, numberOfVideos: 2}, options);
+    await vi.runAllTimersAsync();
+    const result = await outcome;
+
+    expect(result.candidates).toHaveLength(2);
+    expect(result.uri).toMatch(/^mock:\/\/0\/mockOperations\//);
+    expect(result.blob.type).toBe('video/mp4');
+  });
+
+  it('keeps mock renders out of the ledger and the budget', async () => {
+    await run('A paper boat');
+    await run('A paper boat [mock:failed]');
+
+    expect(checkBudget).not.toHaveBeenCalled();
+    expect(reserveUsage).not.toHaveBeenCalled();
+    expect(recordUsage).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['auth', AuthError],
+    ['quota', QuotaError],
+    ['invalid', InvalidInputError],
+    ['policy', ContentPolicyError],
+    ['failed', OperationFailedError],
+    ['download', DownloadFailedError],
+  ])('fails with [mock:%s]', async (directive, expected) => {
+    const outcome = await run(`A paper boat [mock:${directive}]`);
+
+    expect(outcome).toHaveProperty('error');
+    expect((outcome as {error: unknown}).error).toBeInstanceOf(expected);
+  });
+
+  it('retries a quota failure under the default policy', async () => {
+    const onProgress = vi.fn();
+    const outcome = generateVideo(
+      {...params, prompt: '[mock:quota]'},
+      {onProgress},
+    ).catch((error: unknown) => error);
+    await vi.runAllTimersAsync();
+
+    expect(await outcome).toBeInstanceOf(QuotaError);
+    expect(
+      onProgress.mock.calls.filter(([progress]) => progress.retry),
+    ).toHaveLength(2);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Schema, Type} from '@google/genai';
+import {AspectRatio} from '../../types';
+import {
+  AuthError,
+  DownloadFailedError,
+  InvalidInputError,
+  NetworkError,
+  QuotaError,
+} from '../errors';
+import {buildPromptInstruction} from '../promptInstructions';
+import {wait} from '../retry';
+import {ProviderOperation, VideoProvider} from './videoProvider';
+
+// An offline stand-in for the Veo API. It fakes render latency, returns a
+// synthesized test-card clip and can be told to fail, so the UI can be
+// developed and tested without a key or quota.
+//
+// Add a directive to the prompt to force an outcome:
+//   [mock:auth] [mock:quota] [mock:invalid] [mock:policy] [mock:failed]
+//   [mock:download]
+
+export interface MockProviderOptions {
+  // Simulated server-side render time.
+  latencyMs?: number;
+  // Probability (0-1) that any single poll fails with a transient error.
+  transientFailureRate?: number;
+}
+
+type MockFailure =
+  | 'auth'
+  | 'quota'
+  | 'invalid'
+  | 'policy'
+  | 'failed'
+  | 'download';
+
+interface MockOperationState {
+  id: string;
+  startedAt: number;
+  latencyMs: number;
+  aspectRatio: AspectRatio;
+  candidateCount: number;
+  failure?: MockFailure;
+}
+
+const OPERATION_PREFIX = 'mockOperations/';
+const CLIP_SECONDS = 3;
+const CLIP_FPS = 24;
+const DOWNLOAD_CHUNKS = 8;
+
+const MOCK_PROMPTS = [
+  'A neon-lit arcade cabinet humming alone in an empty mall at midnight.',
+  'A paper boat drifting down a rain-soaked street past glowing shop signs.',
+  'A vintage robot watering a tiny garden on a rooftop at sunrise.',
+  'A cassette tape unspooling in slow motion, ribbons catching golden light.',
+];
+
+// Fills a response schema with placeholder values so structured requests
+// get well-formed JSON back. Arrays get a few items to exercise list UIs.
+const sampleFromSchema = (schema: Schema, name = 'value'): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          sampleFromSchema(value, key),
+        ]),
+      );
+    case Type.ARRAY:
+      return [1, 2, 3].map((i) =>
+        sampleFromSchema(schema.items ?? {type: Type.STRING}, `${name} ${i}`),
+      );
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 1;
+    case Type.BOOLEAN:
+      return true;
+    default:
+      return `${MOCK_PROMPTS[Math.floor(Math.random() * MOCK_PROMPTS.length)]} (mock ${name})`;
+  }
+};
+
+// Operation state is encoded into the name itself, so polling is stateless
+// and resuming after a reload works just like with the real API.
+const encodeOperationName = (state: MockOperationState) =>
+  OPERATION_PREFIX + btoa(JSON.stringify(state));
+
+const decodeOperationName = (name: string): MockOperationState => {
+  try {
+    return JSON.parse(atob(name.slice(OPERATION_PREFIX.length)));
+  } catch {
+    throw new InvalidInputError('Unknown mock operation.', {details: name});
+  }
+};
+
+const parseFailure = (prompt: string): MockFailure | undefined =>
+  prompt.match(
+    /\[mock:(auth|quota|invalid|policy|failed|download)\]/,
+  )?.[1] as MockFailure | undefined;
+
+const clipCache = new Map<string, Promise<Blob>>();
+
+const pickRecorderMimeType = () =>
+  ['video/mp4', 'video/webm;codecs=vp9', 'video/webm'].find(
+    (type) =>
+      typeof MediaRecorder !== 'undefined' &&
+      MediaRecorder.isTypeSupported(type),
+  );
+
+// Records a short animated test card, tinted per candidate. Falls back to an
+// empty blob where MediaRecorder is unavailable (e.g. under a test DOM).
+const renderClip = async (
+  aspectRatio: AspectRatio,
+  candidateIndex: number,
+): Promise<Blob> => {
+  const mimeType = pickRecorderMimeType();
+  if (!mimeType) {
+    return new Blob([], {type: 'video/mp4'});
+  }
+
+  const canvas = document.createElement('canvas');
+  const isPortrait = aspectRatio === AspectRatio.PORTRAIT;
+  canvas.width = isPortrait ? 360 : 640;
+  canvas.height = isPortrait ? 640 : 360;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+
+  const recorder = new MediaRecorder(canvas.captureStream(CLIP_FPS), {
+    mimeType,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  let frame = 0;
+  const drawFrame = () => {
+    const {width, height} = canvas;
+    const hue = (frame * 3 + candidateIndex * 90) % 360;
+    ctx.fillStyle = `hsl(${hue}, 60%, 20%)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    for (let y = 0; y < height; y += 4) {
+      ctx.fillRect(0, y, width, 2);
+    }
+    ctx.fillStyle = '#f778ba';
+    ctx.font = '32px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText('CHARCHIRU MOCK', width / 2, height / 2 - 10);
+    ctx.fillStyle = '#58a6ff';
+    ctx.font = '20px monospace';
+    ctx.fillText(
+      `TAKE ${candidateIndex + 1} FRAME ${String(frame).padStart(3, '0')}`,
+      width / 2,
+      height / 2 + 24,
+    );
+    frame++;
+  };
+
+  drawFrame();
+  recorder.start();
+  const intervalId = setInterval(drawFrame, 1000 / CLIP_FPS);
+  await wait(CLIP_SECONDS * 1000);
+  clearInterval(intervalId);
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, {type: mimeType.split(';')[0]});
+};
+
+const getClip = (aspectRatio: AspectRatio, candidateIndex: number) => {
+  const key = `${aspectRatio}:${candidateIndex}`;
+  let clip = clipCache.get(key);
+  if (!clip) {
+    clip = renderClip(aspectRatio, candidateIndex);
+    clipCache.set(key, clip);
+  }
+  return clip;
+};
+
+// Streams the blob in a few delayed chunks so download progress is visible.
+const toSlowResponse = (blob: Blob, signal?: AbortSignal): Response => {
+  const chunkSize = Math.ceil(blob.size / DOWNLOAD_CHUNKS) || 1;
+  let offset = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      if (offset >= blob.size) {
+        controller.close();
+        return;
+      }
+      await wait(150, signal);
+      const chunk = blob.slice(offset, offset + chunkSize);
+      offset += chunkSize;
+      controller.enqueue(new Uint8Array(await chunk.arrayBuffer()));
+    },
+  });
+  return new Response(body, {
+    headers: {
+      'Content-Type': blob.type,
+      'Content-Length': String(blob.size),
+    },
+  });
+};
+
+export const createMockProvider = (
+  options: MockProviderOptions = {},
+): VideoProvider => {
+  const latencyMs = options.latencyMs ?? 8000;
+  const transientFailureRate = options.transientFailureRate ?? 0;
+
+  return {
+    id: 'mock',
+    pollIntervalMs: 1000,
+    requiresApiKey: false,
+
+    submit: async (params, signal) => {
+      await wait(300, signal);
+      const failure = parseFailure(params.prompt ?? '');
+      if (failure === 'auth') {
+        throw new AuthError('The API key was rejected.', {status: 401});
+      }
+      if (failure === 'quota') {
+        throw new QuotaError('Quota or rate limit exceeded.', {status: 429});
+      }
+      if (failure === 'invalid') {
+        throw new InvalidInputError('The request was rejected as invalid.', {
+          status: 400,
+        });
+      }
+      const name = encodeOperationName({
+        id: crypto.randomUUID(),
+        startedAt: Date.now(),
+        latencyMs,
+        aspectRatio: params.aspectRatio,
+        candidateCount: params.numberOfVideos ?? 1,
+        failure,
+      });
+      return {name, done: false};
+    },
+
+    poll: async (operationName, signal) => {
+      await wait(100, signal);
+      if (Math.random() < transientFailureRate) {
+        throw new NetworkError('Simulated network failure.');
+      }
+      const state = decodeOperationName(operationName);
+      const operation: ProviderOperation = {
+        name: operationName,
+        done: Date.now() - state.startedAt >= state.latencyMs,
+      };
+      if (!operation.done) {
+        return operation;
+      }
+      if (state.failure === 'policy') {
+        return {...operation, filteredReasons: ['Simulated safety filter.']};
+      }
+      if (state.failure === 'failed') {
+        return {...operation, error: {message: 'Simulated render failure.'}};
+      }
+      return {
+        ...operation,
+        videos: Array.from({length: state.candidateCount ?? 1}, (_, i) => ({
+          uri: `mock://${i}/${operationName}`,
+          mimeType: 'video/mp4',
+        })),
+      };
+    },
+
+    download: async (video, signal) => {
+      const [, candidateIndex, operationName] =
+        (video.uri ?? '').match(/^mock:\/\/(\d+)\/(.*)$/) ?? [];
+      const state = decodeOperationName(operationName ?? '');
+      if (state.failure === 'download') {
+        throw new DownloadFailedError(
+          'The finished video could not be downloaded.',
+          {status: 500},
+        );
+      }
+      return toSlowResponse(
+        await getClip(state.aspectRatio, Number(candidateIndex)),
+        signal,
+      );
+    },
+
+    generatePrompt: async (task) => {
+      await wait(300);
+      const {options} = buildPromptInstruction(task);
+      if (options.responseSchema) {
+        return JSON.stringify(sampleFromSchema(options.responseSchema));
+      }
+      return MOCK_PROMPTS[Math.floor(Math.random() * MOCK_PROMPTS.length)];
+    },
+  };
+};
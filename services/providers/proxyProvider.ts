@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AuthError,
+  DownloadFailedError,
+  InvalidInputError,
+  NetworkError,
+  QuotaError,
+  VideoGenerationError,
+} from '../errors';
+import {toProxyPromptRequest, toProxyVideoRequest} from './proxyRequest';
+import {ProviderOperation, VideoProvider} from './videoProvider';
+
+// Talks to the key-holding server in server/index.ts instead of calling the
+// Gemini API from the browser, so the bundle needs no API key at all. The
+// server builds the Veo request itself from the params sent here.
+
+export interface ProxyProviderOptions {
+  baseUrl?: string;
+  // Shared with the server as PROXY_TOKEN; sent on every /api call.
+  token?: string;
+}
+
+const toProxyError = async (res: Response): Promise<VideoGenerationError> => {
+  const body = await res.json().catch(() => ({}));
+  const message: string = body.error ?? `Proxy request failed (${res.status}).`;
+  const details = {details: body.details ?? message, status: res.status};
+  if (res.status === 401 || res.status === 403) {
+    return new AuthError(message, details);
+  }
+  if (res.status === 429) {
+    return new QuotaError(message, details);
+  }
+  if (res.status === 400 || res.status === 404 || res.status === 413) {
+    return new InvalidInputError(message, details);
+  }
+  return new NetworkError(message, details);
+};
+
+export const createProxyProvider = (
+  options: ProxyProviderOptions = {},
+): VideoProvider => {
+  const baseUrl = options.baseUrl ?? '/api';
+  const token = options.token ?? process.env.PROXY_TOKEN ?? '';
+  const authorization = `Bearer ${token}`;
+
+  const requestJson = async <T>(path: string, init: RequestInit): Promise<T> => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {...init.headers, Authorization: authorization},
+    });
+    if (!res.ok) {
+      throw await toProxyError(res);
+    }
+    return res.json();
+  };
+
+  const postJson = <T>(path: string, body: unknown, signal?: AbortSignal) =>
+    requestJson<T>(path, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify(body),
+      signal,
+    });
+
+  return {
+    id: 'proxy',
+    pollIntervalMs: 10000,
+    requiresApiKey: false,
+
+    submit: (params, signal) =>
+      postJson<ProviderOperation>(
+        '/videos',
+        toProxyVideoRequest(params),
+        signal,
+      ),
+
+    poll: (operationName, signal) =>
+      requestJson<ProviderOperation>(
+        `/operations?name=${encodeURIComponent(operationName)}`,
+        {signal},
+      ),
+
+    download: async (video, signal) => {
+      const res = await fetch(
+        `${baseUrl}/download?uri=${encodeURIComponent(video.uri ?? '')}`,
+        {headers: {Authorization: authorization}, signal},
+      );
+      if (!res.ok) {
+        const error = await toProxyError(res);
+        if (error instanceof NetworkError) {
+          throw new DownloadFailedError(error.message, {
+            details: error.details,
+            status: error.status,
+          });
+        }
+        throw error;
+      }
+      return res;
+    },
+
+    generatePrompt: async (task, images) => {
+      const {text} = await postJson<{text: string}>(
+        '/prompt',
+        toProxyPromptRequest(task, images),
+      );
+      return text;
+    },
+  };
+};
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  AudioDesign,
+  GenerateVideoParams,
+  GenerationMode,
+  ImageFile,
+  PersonGeneration,
+  Resolution,
+  VeoModel,
+} from '../../types';
+import {InvalidInputError} from '../errors';
+import {MAX_SEED} from '../seed';
+import {InlineImage, PromptTask} from './videoProvider';
+
+// The JSON bodies the proxy provider sends to POST /api/videos and POST
+// /api/prompt. Only these fields are read on the server, which builds the
+// Veo request and the text-model instruction itself, so a client cannot
+// pass arbitrary options or instructions through to the API.
+
+export interface ProxyImage {
+  name: string;
+  mimeType: string;
+  base64: string;
+}
+
+export interface ProxyVideoRequest {
+  prompt: string;
+  model: VeoModel;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  mode: GenerationMode;
+  inputImage?: ProxyImage;
+  startFrame?: ProxyImage;
+  endFrame?: ProxyImage;
+  referenceImages?: ProxyImage[];
+  styleImage?: ProxyImage;
+  // The remote uri of the render to extend.
+  inputVideoUri?: string;
+  isLooping?: boolean;
+  musicPrompt?: string;
+  audioDesign?: AudioDesign;
+  numberOfVideos?: number;
+  negativePrompt?: string;
+  seed?: number;
+  durationSeconds?: number;
+  personGeneration?: PersonGeneration;
+  generateAudio?: boolean;
+}
+
+export type ProxyPromptRequest = PromptTask & {images?: InlineImage[]};
+
+const MAX_CANDIDATES = 4;
+const MAX_PROMPT_IMAGES = 4;
+const MAX_TEXT_LENGTH = 5000;
+
+const toProxyImage = (image: ImageFile | null | undefined) =>
+  image
+    ? {name: image.file.name, mimeType: image.file.type, base64: image.base64}
+    : undefined;
+
+export const toProxyVideoRequest = (
+  params: GenerateVideoParams,
+): ProxyVideoRequest => ({
+  prompt: params.prompt,
+  model: params.model,
+  aspectRatio: params.aspectRatio,
+  resolution: params.resolution,
+  mode: params.mode,
+  inputImage: toProxyImage(params.inputImage),
+  startFrame: toProxyImage(params.startFrame),
+  endFrame: toProxyImage(params.endFrame),
+  referenceImages: params.referenceImages?.map((image) => toProxyImage(image)!),
+  styleImage: toProxyImage(params.styleImage),
+  inputVideoUri: params.inputVideoObject?.uri,
+  isLooping: params.isLooping,
+  musicPrompt: params.musicPrompt,
+  audioDesign: params.audioDesign,
+  numberOfVideos: params.numberOfVideos,
+  negativePrompt: params.negativePrompt,
+  seed: params.seed ?? undefined,
+  durationSeconds: params.durationSeconds,
+  personGeneration: params.personGeneration,
+  generateAudio: params.generateAudio,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (message: string) =>
+  new InvalidInputError(message, {status: 400});
+
+const readEnum = <T extends string>(
+  value: unknown,
+  values: T[],
+  field: string,
+): T => {
+  if (!values.includes(value as T)) {
+    throw invalid(`${field} must be one of ${values.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const readOptional = <T>(
+  body: Record<string, unknown>,
+  field: string,
+  read: (value: unknown, field: string) => T,
+): T | undefined =>
+  body[field] === undefined || body[field] === null
+    ? undefined
+    : read(body[field], field);
+
+const readText = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) {
+    throw invalid(
+      `${field} must be text of at most ${MAX_TEXT_LENGTH} characters.`,
+    );
+  }
+  return value;
+};
+
+const readBoolean = (value: unknown, field: string) => {
+  if (typeof value !== 'boolean') {
+    throw invalid(`${field} must be true or false.`);
+  }
+  return value;
+};
+
+const readInteger = (min: number, max: number) => (
+  value: unknown,
+  field: string,
+) => {
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw invalid(`${field} must be a whole number from ${min} to ${max}.`);
+  }
+  return value;
+};
+
+const readTextList = (value: unknown, field: string) => {
+  if (!Array.isArray(value)) {
+    throw invalid(`${field} must be a list.`);
+  }
+  return value.map((item, i) => readText(item, `${field}[${i}]`));
+};
+
+// Rebuilds the ImageFile the payload builder expects; only the name and
+// type of the file are read.
+const readImage = (value: unknown, field: string): ImageFile => {
+  if (
+    !isRecord(value) ||
+    typeof value.base64 !== 'string' ||
+    typeof value.mimeType !== 'string' ||
+    !/^image\/[\w.+-]+$/.test(value.mimeType)
+  ) {
+    throw invalid(`${field} must be an image with base64 data.`);
+  }
+  const name = typeof value.name === 'string' ? value.name : field;
+  return {
+    file: new File([], name, {type: value.mimeType}),
+    base64: value.base64,
+  };
+};
+
+const readImageList = (value: unknown, field: string) => {
+  if (!Array.isArray(value)) {
+    throw invalid(`${field} must be a list of images.`);
+  }
+  return value.map((item, i) => readImage(item, `${field}[${i}]`));
+};
+
+const readAudioDesign = (value: unknown, field: string): AudioDesign => {
+  if (!isRecord(value)) {
+    throw invalid(`${field} must be an object.`);
+  }
+  const dialogue = value.dialogue ?? [];
+  if (!Array.isArray(dialogue)) {
+    throw invalid(`${field}.dialogue must be a list.`);
+  }
+  return {
+    musicGenre: readText(value.musicGenre ?? '', `${field}.musicGenre`),
+    musicMood: readText(value.musicMood ?? '', `${field}.musicMood`),
+    musicTempo: readText(value.musicTempo ?? '', `${field}.musicTempo`),
+    ambience: readText(value.ambience ?? '', `${field}.ambience`),
+    soundEffects: readTextList(
+      value.soundEffects ?? [],
+      `${field}.soundEffects`,
+    ),
+    dialogue: dialogue.map((line: unknown, i) => {
+      if (!isRecord(line)) {
+        throw invalid(`${field}.dialogue[${i}] must be an object.`);
+      }
+      return {
+        speaker: readText(line.speaker ?? '', `${field}.dialogue[${i}].speaker`),
+        line: readText(line.line ?? '', `${field}.dialogue[${i}].line`),
+      };
+    }),
+  };
+};
+
+// Turns an untrusted request body back into params, rejecting anything that
+// is not one of the fields above with the expected type.
+export const parseProxyVideoRequest = (
+  body: unknown,
+): GenerateVideoParams => {
+  if (!isRecord(body)) {
+    throw invalid('The request body must be a JSON object.');
+  }
+  const inputVideoUri = readOptional(body, 'inputVideoUri', readText);
+  return {
+    prompt: readOptional(body, 'prompt', readText) ?? '',
+    model: readEnum(body.model, Object.values(VeoModel), 'model'),
+    aspectRatio: readEnum(
+      body.aspectRatio,
+      Object.values(AspectRatio),
+      'aspectRatio',
+    ),
+    resolution: readEnum(
+      body.resolution,
+      Object.values(Resolution),
+      'resolution',
+    ),
+    mode: readEnum(body.mode, Object.values(GenerationMode), 'mode'),
+    inputImage: readOptional(body, 'inputImage', readImage),
+    startFrame: readOptional(body, 'startFrame', readImage),
+    endFrame: readOptional(body, 'endFrame', readImage),
+    referenceImages: readOptional(body, 'referenceImages', readImageList),
+    styleImage: readOptional(body, 'styleImage', readImage),
+    inputVideoObject: inputVideoUri ? {uri: inputVideoUri} : undefined,
+    isLooping: readOptional(body, 'isLooping', readBoolean),
+    musicPrompt: readOptional(body, 'musicPrompt', readText),
+    audioDesign: readOptional(body, 'audioDesign', readAudioDesign),
+    numberOfVideos: readOptional(
+      body,
+      'numberOfVideos',
+      readInteger(1, MAX_CANDIDATES),
+    ),
+    negativePrompt: readOptional(body, 'negativePrompt', readText),
+    seed: readOptional(body, 'seed', readInteger(0, MAX_SEED)),
+    durationSeconds: readOptional(body, 'durationSeconds', readInteger(1, 60)),
+    personGeneration: readOptional(body, 'personGeneration', (value, field) =>
+      readEnum(value, Object.values(PersonGeneration), field),
+    ),
+    generateAudio: readOptional(body, 'generateAudio', readBoolean),
+  };
+};
+
+export const toProxyPromptRequest = (
+  task: PromptTask,
+  images?: InlineImage[],
+): ProxyPromptRequest => ({...task, images});
+
+const readInlineImage = (value: unknown, field: string): InlineImage => {
+  if (
+    !isRecord(value) ||
+    typeof value.data !== 'string' ||
+    typeof value.mimeType !== 'string' ||
+    !/^image\/[\w.+-]+$/.test(value.mimeType)
+  ) {
+    throw invalid(`${field} must be an image with base64 data.`);
+  }
+  return {data: value.data, mimeType: value.mimeType};
+};
+
+const readInlineImages = (value: unknown, field: string) => {
+  if (!Array.isArray(value) || value.length > MAX_PROMPT_IMAGES) {
+    throw invalid(
+      `${field} must be a list of at most ${MAX_PROMPT_IMAGES} images.`,
+    );
+  }
+  return value.map((item, i) => readInlineImage(item, `${field}[${i}]`));
+};
+
+// Turns an untrusted prompt request back into a task. There is no field for
+// instruction text; the server builds it from the task.
+export const parseProxyPromptRequest = (
+  body: unknown,
+): {task: PromptTask; images: InlineImage[]} => {
+  if (!isRecord(body)) {
+    throw invalid('The request body must be a JSON object.');
+  }
+  const images = readOptional(body, 'images', readInlineImages) ?? [];
+  switch (body.kind) {
+    case 'inspire':
+    case 'describe':
+      return {task: {kind: body.kind}, images};
+    case 'enhance':
+      return {
+        task: {
+          kind: 'enhance',
+          prompt: readOptional(body, 'prompt', readText) ?? '',
+          mode: readEnum(body.mode, Object.values(GenerationMode), 'mode'),
+        },
+        images,
+      };
+    default:
+      throw invalid('kind must be one of inspire, enhance, describe.');
+  }
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Schema, Video} from '@google/genai';
+import {GenerateVideoParams, GenerationMode} from '../../types';
+
+// Backend-neutral view of a long-running generation.
+export interface ProviderOperation {
+  name: string;
+  done: boolean;
+  error?: {message: string};
+  videos?: Video[];
+  // Present when the backend removed output for safety reasons.
+  filteredReasons?: string[];
+}
+
+// An image the text model should look at, as base64 data.
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface PromptRequestOptions {
+  images?: InlineImage[];
+  // When set, the reply is JSON matching this schema.
+  responseSchema?: Schema;
+}
+
+// What a text-model request is for. Providers build the instruction from it
+// (see services/promptInstructions.ts) rather than taking free-form text.
+export type PromptTask =
+  | {kind: 'inspire'}
+  | {kind: 'enhance'; prompt: string; mode: GenerationMode}
+  | {kind: 'describe'};
+
+// The steps geminiService orchestrates. Providers do the raw calls only;
+// retries, progress reporting and error classification live in the service.
+export interface VideoProvider {
+  readonly id: string;
+  readonly pollIntervalMs: number;
+  // Whether the browser must hold a Gemini API key for this backend.
+  readonly requiresApiKey: boolean;
+  submit: (
+    params: GenerateVideoParams,
+    signal?: AbortSignal,
+  ) => Promise<ProviderOperation>;
+  poll: (
+    operationName: string,
+    signal?: AbortSignal,
+  ) => Promise<ProviderOperation>;
+  // Resolves with an OK response whose body is the video file.
+  download: (video: Video, signal?: AbortSignal) => Promise<Response>;
+  generatePrompt: (task: PromptTask, images?: InlineImage[]) => Promise<string>;
+}
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+  AuthError,
+  InvalidInputError,
+  NetworkError,
+  QuotaError,
+  UnknownError,
+  VideoErrorKind,
+} from './errors';
+import {RetryPolicy, RetryStep, computeRetryDelay, withRetry} from './retry';
+
+const policy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({
+  maxAttempts: 3,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  backoffMultiplier: 2,
+  jitter: 0,
+  retryOn: [VideoErrorKind.QUOTA, VideoErrorKind.NETWORK],
+  ...overrides,
+});
+
+describe('computeRetryDelay', () => {
+  const backoff = policy({
+    initialDelayMs: 1000,
+    maxDelayMs: 10000,
+    backoffMultiplier: 2,
+    jitter: 0.5,
+  });
+
+  it('doubles the delay per attempt up to the maximum', () => {
+    const noJitter = {...backoff, jitter: 0};
+    expect([1, 2, 3, 4, 5].map((a) => computeRetryDelay(noJitter, a))).toEqual(
+      [1000, 2000, 4000, 8000, 10000],
+    );
+  });
+
+  it('randomizes the jittered fraction of the delay', () => {
+    expect(computeRetryDelay(backoff, 2, () => 0)).toBe(1000);
+    expect(computeRetryDelay(backoff, 2, () => 0.5)).toBe(1500);
+    expect(computeRetryDelay(backoff, 2, () => 1)).toBe(2000);
+  });
+
+  it('clamps jitter to the 0-1 range', () => {
+    expect(computeRetryDelay({...backoff, jitter: 5}, 1, () => 0)).toBe(0);
+    expect(computeRetryDelay({...backoff, jitter: -1}, 1, () => 0)).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries retryable kinds until the task succeeds', async () => {
+    const task = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new NetworkError('offline'))
+      .mockRejectedValueOnce(new QuotaError('slow down'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    await expect(
+      withRetry(task, policy(), {step: RetryStep.SUBMIT, onRetry}),
+    ).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([retry]) => retry.attempt)).toEqual([1, 2]);
+    expect(onRetry.mock.calls[1][0]).toMatchObject({
+      step: RetryStep.SUBMIT,
+      maxAttempts: 3,
+      error: expect.any(QuotaError),
+    });
+  });
+
+  it('throws non-retryable kinds straight away', async () => {
+    const task = vi.fn().mockRejectedValue(new AuthError('bad key'));
+
+    await expect(
+      withRetry(task, policy(), {step: RetryStep.POLL}),
+    ).rejects.toBeInstanceOf(AuthError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('classifies raw errors before deciding', async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue('ok');
+
+    await expect(
+      withRetry(task, policy(), {step: RetryStep.DOWNLOAD}),
+    ).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a TypeError that fetch did not throw', async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValue(new TypeError('Cannot read properties of undefined'));
+
+    await expect(
+      withRetry(task, policy(), {step: RetryStep.POLL}),
+    ).rejects.toBeInstanceOf(UnknownError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const task = vi.fn().mockRejectedValue(new NetworkError('offline'));
+
+    await expect(
+      withRetry(task, policy({maxAttempts: 4}), {step: RetryStep.POLL}),
+    ).rejects.toBeInstanceOf(NetworkError);
+    expect(task).toHaveBeenCalledTimes(4);
+  });
+
+  it('only retries the kinds listed in retryOn', async () => {
+    const task = vi.fn().mockRejectedValue(new InvalidInputError('bad'));
+
+    await expect(
+      withRetry(task, policy({retryOn: [VideoErrorKind.INVALID_INPUT]}), {
+        step: RetryStep.SUBMIT,
+      }),
+    ).rejects.toBeInstanceOf(InvalidInputError);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops waiting when aborted during backoff', async () => {
+    const controller = new AbortController();
+    const reason = new DOMException('Cancelled', 'AbortError');
+    const task = vi.fn().mockRejectedValue(new NetworkError('offline'));
+
+    await expect(
+      withRetry(task, policy({initialDelayMs: 60000, maxDelayMs: 60000}), {
+        step: RetryStep.POLL,
+        signal: controller.signal,
+        onRetry: () => controller.abort(reason),
+      }),
+    ).rejects.toBe(reason);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows the original error once already aborted', async () => {
+    const controller = new AbortController();
+    const error = new Error('stream closed');
+    const task = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw error;
+    });
+
+    await expect(
+      withRetry(task, policy(), {
+        step: RetryStep.DOWNLOAD,
+        signal: controller.signal,
+      }),
+    ).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {VideoErrorKind, VideoGenerationError, classifyError} from './errors';
+
+export interface RetryPolicy {
+  // Total attempts, including the first one.
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  // Fraction of each delay that is randomized, from 0 (none) to 1 (full).
+  jitter: number;
+  retryOn: VideoErrorKind[];
+}
+
+export enum RetryStep {
+  SUBMIT = 'submit',
+  POLL = 'poll',
+  DOWNLOAD = 'download',
+}
+
+export type RetryPolicies = Record<RetryStep, RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICIES: RetryPolicies = {
+  [RetryStep.SUBMIT]: {
+    maxAttempts: 3,
+    initialDelayMs: 5000,
+    maxDelayMs: 30000,
+    backoffMultiplier: 2,
+    jitter: 0.3,
+    retryOn: [VideoErrorKind.QUOTA, VideoErrorKind.NETWORK],
+  },
+  // A poll failure should not throw away a render that is still running
+  // server-side, so polling is the most forgiving step.
+  [RetryStep.POLL]: {
+    maxAttempts: 6,
+    initialDelayMs: 5000,
+    maxDelayMs: 60000,
+    backoffMultiplier: 2,
+    jitter: 0.3,
+    retryOn: [VideoErrorKind.QUOTA, VideoErrorKind.NETWORK],
+  },
+  [RetryStep.DOWNLOAD]: {
+    maxAttempts: 4,
+    initialDelayMs: 2000,
+    maxDelayMs: 20000,
+    backoffMultiplier: 2,
+    jitter: 0.3,
+    retryOn: [
+      VideoErrorKind.QUOTA,
+      VideoErrorKind.NETWORK,
+      VideoErrorKind.DOWNLOAD_FAILED,
+    ],
+  },
+};
+
+export const resolveRetryPolicies = (
+  overrides: Partial<RetryPolicies> = {},
+): RetryPolicies => ({...DEFAULT_RETRY_POLICIES, ...overrides});
+
+export interface RetryAttempt {
+  step: RetryStep;
+  // The attempt that just failed, starting at 1.
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: VideoGenerationError;
+}
+
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+// Exponential backoff for the given (1-based) failed attempt, with part of the
+// delay randomized so parallel jobs don't retry in lockstep.
+export const computeRetryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number => {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1),
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(base * (1 - jitter + jitter * random()));
+};
+
+export interface WithRetryOptions {
+  step: RetryStep;
+  signal?: AbortSignal;
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  policy: RetryPolicy,
+  options: WithRetryOptions,
+): Promise<T> => {
+  const {step, signal, onRetry} = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const classified = classifyError(error);
+      if (
+        attempt >= policy.maxAttempts ||
+        !policy.retryOn.includes(classified.kind)
+      ) {
+        throw classified;
+      }
+      const delayMs = computeRetryDelay(policy, attempt);
+      console.warn(
+        `Retrying ${step} (attempt ${attempt + 1}/${policy.maxAttempts}) in ${delayMs}ms:`,
+        classified,
+      );
+      onRetry?.({
+        step,
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        error: classified,
+      });
+      await wait(delayMs, signal);
+    }
+  }
+};
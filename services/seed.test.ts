@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  Resolution,
+  VeoModel,
+} from '../types';
+import {MAX_SEED, isValidSeed, rerollSeed, resolveSeed} from './seed';
+
+const params: GenerateVideoParams = {
+  prompt: 'Waves at night',
+  model: VeoModel.VEO_FAST,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P720,
+  mode: GenerationMode.TEXT_TO_VIDEO,
+};
+
+describe('resolveSeed', () => {
+  it('keeps an entered seed whether or not it is locked', () => {
+    expect(resolveSeed({...params, seed: 7}).seed).toBe(7);
+    expect(resolveSeed({...params, seed: 7, lockSeed: true}).seed).toBe(7);
+  });
+
+  it('rolls a seed when none is set', () => {
+    for (const seed of [undefined, null, -1, 1.5, MAX_SEED + 1]) {
+      expect(isValidSeed(resolveSeed({...params, seed}).seed)).toBe(true);
+    }
+  });
+});
+
+describe('rerollSeed', () => {
+  it('keeps a locked seed', () => {
+    expect(rerollSeed({...params, seed: 7, lockSeed: true}).seed).toBe(7);
+  });
+
+  it('rolls a new seed when unlocked', () => {
+    const seeds = new Set(
+      Array.from({length: 5}, () => rerollSeed({...params, seed: 7}).seed),
+    );
+    expect(seeds.has(7) && seeds.size === 1).toBe(false);
+    seeds.forEach((seed) => expect(isValidSeed(seed)).toBe(true));
+  });
+});
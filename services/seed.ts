@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams} from '../types';
+
+// Every render is sent with an explicit seed so any result can be reproduced
+// from its history entry. A seed entered by the user is always used; one is
+// rolled only when none is set. Retries roll a new seed unless `lockSeed` is
+// on.
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+export const isValidSeed = (seed: unknown): seed is number =>
+  typeof seed === 'number' &&
+  Number.isInteger(seed) &&
+  seed >= 0 &&
+  seed <= MAX_SEED;
+
+export const resolveSeed = <T extends GenerateVideoParams>(params: T): T => ({
+  ...params,
+  seed: isValidSeed(params.seed) ? params.seed : randomSeed(),
+});
+
+export const rerollSeed = <T extends GenerateVideoParams>(params: T): T => ({
+  ...params,
+  seed: params.lockSeed && isValidSeed(params.seed) ? params.seed : randomSeed(),
+});
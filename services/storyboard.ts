@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerateVideoResult,
+  GenerationMode,
+  Resolution,
+  ShotStatus,
+  Storyboard,
+  StoryboardShot,
+  VeoModel,
+} from '../types';
+import {revokeResultUrls} from './geminiService';
+import {JobRunContext} from './jobQueue';
+
+// Runs an ordered list of shots as one chain. The first shot of each take is
+// rendered from text (or from its start frame); every following shot extends
+// the previous shot's video. Extend only works with the standard model at
+// 720p, so the whole storyboard renders with those settings.
+
+export type ShotRunner = (
+  params: GenerateVideoParams,
+  context: JobRunContext,
+) => Promise<GenerateVideoResult>;
+
+export interface StoryboardOptions {
+  onShotSettled?: (shot: StoryboardShot, params: GenerateVideoParams) => void;
+  onShotFailed?: (shot: StoryboardShot, error: unknown) => void;
+}
+
+export type ShotPatch = Partial<
+  Pick<StoryboardShot, 'prompt' | 'musicPrompt' | 'startFrame'>
+>;
+
+export interface StoryboardController {
+  addShot: () => void;
+  updateShot: (id: string, patch: ShotPatch) => void;
+  removeShot: (id: string) => void;
+  moveShot: (id: string, offset: number) => void;
+  setAspectRatio: (aspectRatio: AspectRatio) => void;
+  // Renders every shot that is not done yet, in order.
+  run: () => Promise<void>;
+  // Renders one shot again. Shots that extend it are re-rendered too.
+  reroll: (id: string) => Promise<void>;
+  cancel: () => void;
+  getStoryboard: () => Storyboard;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const isTakeStart = (shots: StoryboardShot[], index: number) =>
+  index === 0 || !!shots[index].startFrame;
+
+export const buildShotParams = (
+  shots: StoryboardShot[],
+  index: number,
+  aspectRatio: AspectRatio,
+): GenerateVideoParams => {
+  const shot = shots[index];
+  const base = {
+    prompt: shot.prompt,
+    musicPrompt: shot.musicPrompt,
+    model: VeoModel.VEO,
+    resolution: Resolution.P720,
+    aspectRatio,
+  };
+  if (shot.startFrame) {
+    return {
+      ...base,
+      mode: GenerationMode.FRAMES_TO_VIDEO,
+      startFrame: shot.startFrame,
+    };
+  }
+  if (isTakeStart(shots, index)) {
+    return {...base, mode: GenerationMode.TEXT_TO_VIDEO};
+  }
+  const previous = shots[index - 1].result;
+  if (!previous) {
+    throw new Error(`Shot ${index} must finish before shot ${index + 1}.`);
+  }
+  return {
+    ...base,
+    mode: GenerationMode.EXTEND_VIDEO,
+    inputVideoObject: previous.video,
+  };
+};
+
+// An extended video contains everything before it, so the last finished shot
+// of each take holds the whole take. Playing these in order plays the
+// storyboard.
+export const getTimelineShots = (shots: StoryboardShot[]) =>
+  shots.filter(
+    (shot, index) =>
+      shot.status === ShotStatus.DONE &&
+      (index === shots.length - 1 ||
+        isTakeStart(shots, index + 1) ||
+        shots[index + 1].status !== ShotStatus.DONE),
+  );
+
+const createShot = (): StoryboardShot => ({
+  id: crypto.randomUUID(),
+  prompt: '',
+  musicPrompt: '',
+  startFrame: null,
+  status: ShotStatus.PENDING,
+});
+
+export const createStoryboard = (
+  runner: ShotRunner,
+  options: StoryboardOptions = {},
+): StoryboardController => {
+  let storyboard: Storyboard = {
+    aspectRatio: AspectRatio.LANDSCAPE,
+    shots: [createShot()],
+    isRunning: false,
+  };
+  const listeners = new Set<() => void>();
+  let controller: AbortController | null = null;
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const update = (patch: Partial<Storyboard>) => {
+    storyboard = {...storyboard, ...patch};
+    emit();
+  };
+
+  const updateShot = (id: string, patch: Partial<StoryboardShot>) =>
+    update({
+      shots: storyboard.shots.map((shot) =>
+        shot.id === id ? {...shot, ...patch} : shot,
+      ),
+    });
+
+  const resetShot = (shot: StoryboardShot): StoryboardShot => {
+    if (shot.status === ShotStatus.PENDING) return shot;
+    if (shot.result) revokeResultUrls(shot.result);
+    return {
+      ...shot,
+      status: ShotStatus.PENDING,
+      progress: undefined,
+      result: undefined,
+      error: undefined,
+    };
+  };
+
+  // Resets a shot and every shot that extends it, dropping stale renders.
+  const invalidateFrom = (shots: StoryboardShot[], index: number) =>
+    shots.map((shot, i) => {
+      const isDownstream =
+        i >= index &&
+        !shots.slice(index + 1, i + 1).some((s) => !!s.startFrame);
+      return isDownstream ? resetShot(shot) : shot;
+    });
+
+  const run = async () => {
+    if (storyboard.isRunning) return;
+    const runController = new AbortController();
+    controller = runController;
+    update({isRunning: true});
+
+    try {
+      for (let index = 0; index < storyboard.shots.length; index++) {
+        const shot = storyboard.shots[index];
+        if (shot.status === ShotStatus.DONE) continue;
+        updateShot(shot.id, {
+          status: ShotStatus.RUNNING,
+          progress: undefined,
+          error: undefined,
+        });
+        try {
+          const params = buildShotParams(
+            storyboard.shots,
+            index,
+            storyboard.aspectRatio,
+          );
+          const result = await runner(params, {
+            signal: runController.signal,
+            onProgress: (progress) => updateShot(shot.id, {progress}),
+          });
+          updateShot(shot.id, {status: ShotStatus.DONE, result});
+          const settled = storyboard.shots.find((s) => s.id === shot.id);
+          if (settled) options.onShotSettled?.(settled, params);
+        } catch (error) {
+          if (runController.signal.aborted) {
+            updateShot(shot.id, {status: ShotStatus.PENDING});
+            return;
+          }
+          console.error(`Storyboard shot ${index + 1} failed:`, error);
+          updateShot(shot.id, {
+            status: ShotStatus.FAILED,
+            error:
+              error instanceof Error ? error.message : 'Shot failed to render.',
+          });
+          const failed = storyboard.shots.find((s) => s.id === shot.id);
+          if (failed) options.onShotFailed?.(failed, error);
+          // Later shots would extend a missing video, so the chain stops.
+          return;
+        }
+      }
+    } finally {
+      if (controller === runController) controller = null;
+      update({isRunning: false});
+    }
+  };
+
+  return {
+    addShot: () => update({shots: [...storyboard.shots, createShot()]}),
+    updateShot: (id, patch) => {
+      if (storyboard.isRunning) return;
+      const index = storyboard.shots.findIndex((shot) => shot.id === id);
+      if (index < 0) return;
+      const shots = storyboard.shots.map((shot) =>
+        shot.id === id ? {...shot, ...patch} : shot,
+      );
+      update({shots: invalidateFrom(shots, index)});
+    },
+    removeShot: (id) => {
+      if (storyboard.isRunning || storyboard.shots.length <= 1) return;
+      const index = storyboard.shots.findIndex((shot) => shot.id === id);
+      if (index < 0) return;
+      const removed = storyboard.shots[index];
+      if (removed.result) revokeResultUrls(removed.result);
+      const shots = storyboard.shots.filter((shot) => shot.id !== id);
+      update({shots: invalidateFrom(shots, index)});
+    },
+    moveShot: (id, offset) => {
+      if (storyboard.isRunning) return;
+      const index = storyboard.shots.findIndex((shot) => shot.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= storyboard.shots.length) return;
+      const shots = [...storyboard.shots];
+      [shots[index], shots[target]] = [shots[target], shots[index]];
+      update({shots: invalidateFrom(shots, Math.min(index, target))});
+    },
+    setAspectRatio: (aspectRatio) => {
+      if (storyboard.isRunning || aspectRatio === storyboard.aspectRatio) {
+        return;
+      }
+      update({aspectRatio, shots: storyboard.shots.map(resetShot)});
+    },
+    run,
+    reroll: async (id) => {
+      if (storyboard.isRunning) return;
+      const index = storyboard.shots.findIndex((shot) => shot.id === id);
+      if (index < 0) return;
+      update({shots: invalidateFrom(storyboard.shots, index)});
+      await run();
+    },
+    cancel: () => controller?.abort(),
+    getStoryboard: () => storyboard,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
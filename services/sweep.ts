@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideoParams,
+  GenerationMode,
+  SweepCell,
+  SweepLabel,
+  SweepSpec,
+} from '../types';
+import {estimateJobDuration} from './durationStats';
+import {estimateGenerationCost} from './pricing';
+import {extractTemplateVariables, fillTemplate} from './templateLibrary';
+
+// Expands lists of parameter values into every combination (a cartesian
+// product) so one idea can be rendered across models, formats and prompt
+// variants in a single batch on the render queue.
+
+export const MAX_SWEEP_CELLS = 32;
+
+// Used for time estimates before any job has finished on this device.
+const FALLBACK_JOB_DURATION_MS = 120_000;
+
+interface SweepAxis {
+  name: string;
+  values: string[];
+  apply: (params: GenerateVideoParams, value: string) => GenerateVideoParams;
+}
+
+const withFallback = (values: string[], fallback: string) =>
+  values.length > 0 ? values : [fallback];
+
+const getAxes = (spec: SweepSpec): SweepAxis[] => [
+  ...extractTemplateVariables(spec.prompt).map(
+    (name): SweepAxis => ({
+      name,
+      values: withFallback(
+        (spec.variableValues[name] ?? []).filter((v) => v.trim()),
+        `{${name}}`,
+      ),
+      apply: (params, value) => ({
+        ...params,
+        prompt: fillTemplate(params.prompt, {[name]: value}),
+      }),
+    }),
+  ),
+  {
+    name: 'model',
+    values: spec.models,
+    apply: (params, value) => ({
+      ...params,
+      model: value as GenerateVideoParams['model'],
+    }),
+  },
+  {
+    name: 'aspect',
+    values: spec.aspectRatios,
+    apply: (params, value) => ({
+      ...params,
+      aspectRatio: value as GenerateVideoParams['aspectRatio'],
+    }),
+  },
+  {
+    name: 'resolution',
+    values: spec.resolutions,
+    apply: (params, value) => ({
+      ...params,
+      resolution: value as GenerateVideoParams['resolution'],
+    }),
+  },
+  {
+    name: 'music',
+    values: withFallback(spec.musicPrompts, ''),
+    apply: (params, value) => ({...params, musicPrompt: value}),
+  },
+];
+
+export const countSweepCells = (spec: SweepSpec) =>
+  getAxes(spec).reduce((count, axis) => count * axis.values.length, 1);
+
+// Later axes vary fastest, so the last varying axis forms the grid columns.
+export const expandSweep = (
+  spec: SweepSpec,
+): {cells: SweepCell[]; columns: number} => {
+  const axes = getAxes(spec);
+  let cells: SweepCell[] = [
+    {
+      labels: [],
+      params: {
+        prompt: spec.prompt,
+        model: spec.models[0],
+        aspectRatio: spec.aspectRatios[0],
+        resolution: spec.resolutions[0],
+        mode: GenerationMode.TEXT_TO_VIDEO,
+        musicPrompt: '',
+      },
+    },
+  ];
+  for (const axis of axes) {
+    const isVarying = axis.values.length > 1;
+    cells = cells.flatMap((cell) =>
+      axis.values.map((value) => ({
+        labels: isVarying
+          ? [...cell.labels, {axis: axis.name, value: value || '(none)'}]
+          : cell.labels,
+        params: axis.apply(cell.params, value),
+      })),
+    );
+  }
+  const varying = axes.filter((axis) => axis.values.length > 1);
+  return {cells, columns: varying.at(-1)?.values.length ?? 1};
+};
+
+export const estimateSweep = (cells: SweepCell[], concurrency: number) => {
+  const costUsd = cells.reduce(
+    (sum, cell) => sum + estimateGenerationCost(cell.params),
+    0,
+  );
+  const durations = cells.map(
+    (cell) =>
+      estimateJobDuration(cell.params.model, cell.params.resolution) ??
+      FALLBACK_JOB_DURATION_MS,
+  );
+  // Jobs run in waves of `concurrency`; each wave is as slow as its slowest.
+  let durationMs = 0;
+  for (let i = 0; i < durations.length; i += concurrency) {
+    durationMs += Math.max(...durations.slice(i, i + concurrency));
+  }
+  return {count: cells.length, costUsd, durationMs};
+};
+
+export const formatSweepLabels = (labels: SweepLabel[]) =>
+  labels.map(({axis, value}) => `${axis}: ${value}`).join(' · ');
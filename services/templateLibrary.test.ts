@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {GenerationMode, VeoModel} from '../types';
+import {parseTemplateFile} from './templateLibrary';
+
+const template = {
+  id: 't-1',
+  name: ' Night market ',
+  prompt: 'A night market in {city}',
+  tags: ['street', 4, 'Night'],
+  defaults: {
+    model: VeoModel.VEO,
+    mode: GenerationMode.EXTEND_VIDEO,
+    resolution: '8k',
+    musicPrompt: 'lo-fi',
+  },
+  updatedAt: 5,
+};
+
+const file = (value: unknown) => JSON.stringify(value);
+
+describe('parseTemplateFile', () => {
+  it('keeps only valid fields', () => {
+    const [parsed] = parseTemplateFile(
+      file({format: 'charchiru-templates', version: 1, templates: [template]}),
+    );
+
+    expect(parsed).toEqual({
+      id: 't-1',
+      name: 'Night market',
+      prompt: 'A night market in {city}',
+      tags: ['street', 'night'],
+      defaults: {model: VeoModel.VEO, musicPrompt: 'lo-fi'},
+      updatedAt: 5,
+    });
+  });
+
+  it('accepts a bare list and skips unusable entries', () => {
+    const parsed = parseTemplateFile(
+      file([template, null, 'text', {name: 'No prompt'}]),
+    );
+
+    expect(parsed.map((t) => t.id)).toEqual(['t-1']);
+  });
+
+  it.each([
+    ['invalid JSON', '{', 'not valid JSON'],
+    ['a file without templates', file({templates: 'none'}), 'template library'],
+    ['a newer version', file({version: 2, templates: [template]}), 'newer'],
+    ['no usable templates', file([{name: ' ', prompt: 'x'}]), 'no usable'],
+  ])('rejects %s', (_label, text, message) => {
+    expect(() => parseTemplateFile(text)).toThrow(message);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerationMode,
+  PromptTemplate,
+  Resolution,
+  TemplateDefaults,
+  VeoModel,
+} from '../types';
+
+// Reusable prompts with {variable} placeholders and default settings. The
+// library lives in localStorage and can be shared as a JSON file so a team
+// can keep one house-style set of templates.
+
+const STORAGE_KEY = 'charchiru.templates';
+const FILE_FORMAT = 'charchiru-templates';
+const FILE_VERSION = 1;
+const VARIABLE_PATTERN = /\{([a-zA-Z][\w-]*)\}/g;
+
+const builtInTemplates: PromptTemplate[] = [
+  {
+    id: 'builtin-drone-shot',
+    name: 'Cinematic Drone Shot',
+    prompt:
+      'A cinematic drone shot of {subject} on a winding road through a forest in {season}.',
+    tags: ['cinematic', 'landscape'],
+    defaults: {mode: GenerationMode.TEXT_TO_VIDEO},
+    updatedAt: 0,
+  },
+  {
+    id: 'builtin-surreal-animation',
+    name: 'Surreal Animation',
+    prompt:
+      'A surreal animation of {subject} floating through the clouds at {time_of_day}.',
+    tags: ['animation', 'surreal'],
+    defaults: {mode: GenerationMode.TEXT_TO_VIDEO},
+    updatedAt: 0,
+  },
+  {
+    id: 'builtin-time-lapse-city',
+    name: 'Time-lapse City',
+    prompt:
+      'A time-lapse of a futuristic city with flying vehicles and neon lights, {camera}.',
+    tags: ['time-lapse', 'sci-fi'],
+    defaults: {mode: GenerationMode.TEXT_TO_VIDEO},
+    updatedAt: 0,
+  },
+  {
+    id: 'builtin-underwater-world',
+    name: 'Underwater World',
+    prompt:
+      'A beautiful underwater shot of a coral reef with colorful fish and {subject}, {lighting}.',
+    tags: ['nature', 'underwater'],
+    defaults: {mode: GenerationMode.TEXT_TO_VIDEO},
+    updatedAt: 0,
+  },
+];
+
+export const extractTemplateVariables = (prompt: string): string[] => [
+  ...new Set(Array.from(prompt.matchAll(VARIABLE_PATTERN), (m) => m[1])),
+];
+
+// Unfilled variables are left as-is so they stay visible in the prompt.
+export const fillTemplate = (
+  prompt: string,
+  values: Record<string, string>,
+): string =>
+  prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name].trim() : placeholder,
+  );
+
+export const parseTags = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean),
+  ),
+];
+
+const isOneOf = <T extends string>(
+  values: Record<string, T>,
+  value: unknown,
+): value is T => Object.values(values).includes(value as T);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Drops unknown or invalid fields so a hand-edited file cannot break the form.
+const sanitizeDefaults = (defaults: unknown): TemplateDefaults => {
+  const clean: TemplateDefaults = {};
+  if (!isRecord(defaults)) return clean;
+  if (isOneOf(VeoModel, defaults.model)) clean.model = defaults.model;
+  if (isOneOf(AspectRatio, defaults.aspectRatio)) {
+    clean.aspectRatio = defaults.aspectRatio;
+  }
+  if (isOneOf(Resolution, defaults.resolution)) {
+    clean.resolution = defaults.resolution;
+  }
+  // Extend needs a previous video, which a template cannot carry.
+  if (
+    isOneOf(GenerationMode, defaults.mode) &&
+    defaults.mode !== GenerationMode.EXTEND_VIDEO
+  ) {
+    clean.mode = defaults.mode;
+  }
+  if (typeof defaults.musicPrompt === 'string') {
+    clean.musicPrompt = defaults.musicPrompt;
+  }
+  return clean;
+};
+
+const sanitizeTemplate = (raw: unknown): PromptTemplate | null => {
+  if (
+    !isRecord(raw) ||
+    typeof raw.name !== 'string' ||
+    typeof raw.prompt !== 'string' ||
+    !raw.name.trim() ||
+    !raw.prompt.trim()
+  ) {
+    return null;
+  }
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name: raw.name.trim(),
+    prompt: raw.prompt,
+    tags: Array.isArray(raw.tags)
+      ? parseTags(
+          raw.tags.filter((t): t is string => typeof t === 'string').join(','),
+        )
+      : [],
+    defaults: sanitizeDefaults(raw.defaults),
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : Date.now(),
+  };
+};
+
+const storeTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Built-in templates seed the library until it is first changed.
+export const listTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return builtInTemplates;
+    return (JSON.parse(stored) as unknown[])
+      .map(sanitizeTemplate)
+      .filter((t): t is PromptTemplate => t !== null);
+  } catch (error) {
+    console.error('Failed to load templates:', error);
+    return builtInTemplates;
+  }
+};
+
+export const saveTemplate = (
+  template: Omit<PromptTemplate, 'id' | 'updatedAt'> & {id?: string},
+): PromptTemplate[] => {
+  const saved: PromptTemplate = {
+    ...template,
+    id: template.id ?? crypto.randomUUID(),
+    updatedAt: Date.now(),
+  };
+  const templates = listTemplates();
+  const next = templates.some((t) => t.id === saved.id)
+    ? templates.map((t) => (t.id === saved.id ? saved : t))
+    : [...templates, saved];
+  storeTemplates(next);
+  return next;
+};
+
+export const deleteTemplate = (id: string): PromptTemplate[] => {
+  const next = listTemplates().filter((t) => t.id !== id);
+  storeTemplates(next);
+  return next;
+};
+
+// Matches every word of the query against name, prompt and tags.
+export const searchTemplates = (
+  templates: PromptTemplate[],
+  query: string,
+  tag?: string | null,
+): PromptTemplate[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return templates.filter((template) => {
+    if (tag && !template.tags.includes(tag)) return false;
+    const haystack = [template.name, template.prompt, ...template.tags]
+      .join(' ')
+      .toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+};
+
+export const exportTemplates = (templates: PromptTemplate[]): string =>
+  JSON.stringify(
+    {format: FILE_FORMAT, version: FILE_VERSION, templates},
+    null,
+    2,
+  );
+
+export const parseTemplateFile = (text: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  // A bare array of templates is accepted as well.
+  const rawTemplates = isRecord(data) ? data.templates : data;
+  if (!Array.isArray(rawTemplates)) {
+    throw new Error('The file does not contain a template library.');
+  }
+  if (
+    isRecord(data) &&
+    typeof data.version === 'number' &&
+    data.version > FILE_VERSION
+  ) {
+    throw new Error('The file was made by a newer version of CharChiru.');
+  }
+  const templates = rawTemplates
+    .map(sanitizeTemplate)
+    .filter((t): t is PromptTemplate => t !== null);
+  if (templates.length === 0) {
+    throw new Error('The file contains no usable templates.');
+  }
+  return templates;
+};
+
+// Imported templates replace local ones with the same id.
+export const importTemplates = (
+  imported: PromptTemplate[],
+): PromptTemplate[] => {
+  const importedIds = new Set(imported.map((t) => t.id));
+  const next = [
+    ...listTemplates().filter((t) => !importedIds.has(t.id)),
+    ...imported,
+  ];
+  storeTemplates(next);
+  return next;
+};
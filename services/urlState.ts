@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  Resolution,
+  VeoModel,
+} from '../types';
+
+// Mirrors the text-only settings of the form in the query string, so a page
+// reload or a shared link restores them. Media inputs stay in memory only.
+// `view=result` marks the history entry of a finished render, which lets the
+// browser's back and forward buttons move between the form and the result.
+
+export type UrlView = 'form' | 'result';
+
+export type UrlSettings = Partial<
+  Pick<
+    GenerateVideoParams,
+    | 'prompt'
+    | 'musicPrompt'
+    | 'model'
+    | 'aspectRatio'
+    | 'resolution'
+    | 'mode'
+    | 'isLooping'
+  >
+>;
+
+export interface UrlState {
+  settings: UrlSettings;
+  view: UrlView;
+}
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown) =>
+  Object.values(values).includes(value as T);
+
+export const readUrlState = (search = window.location.search): UrlState => {
+  const query = new URLSearchParams(search);
+  const settings: UrlSettings = {};
+  const prompt = query.get('prompt');
+  if (prompt !== null) settings.prompt = prompt;
+  const musicPrompt = query.get('music');
+  if (musicPrompt !== null) settings.musicPrompt = musicPrompt;
+  const model = query.get('model');
+  if (isOneOf(VeoModel, model)) settings.model = model as VeoModel;
+  const aspectRatio = query.get('aspect');
+  if (isOneOf(AspectRatio, aspectRatio)) {
+    settings.aspectRatio = aspectRatio as AspectRatio;
+  }
+  const resolution = query.get('res');
+  if (isOneOf(Resolution, resolution)) {
+    settings.resolution = resolution as Resolution;
+  }
+  // Extend needs a previous video, which a link cannot carry.
+  const mode = query.get('mode');
+  if (isOneOf(GenerationMode, mode) && mode !== GenerationMode.EXTEND_VIDEO) {
+    settings.mode = mode as GenerationMode;
+  }
+  if (query.has('loop')) settings.isLooping = query.get('loop') === '1';
+  return {
+    settings,
+    view: query.get('view') === 'result' ? 'result' : 'form',
+  };
+};
+
+export const hasUrlSettings = ({settings}: UrlState) =>
+  Object.keys(settings).length > 0;
+
+const buildUrl = (settings: UrlSettings, view: UrlView) => {
+  const query = new URLSearchParams();
+  if (settings.prompt) query.set('prompt', settings.prompt);
+  if (settings.musicPrompt) query.set('music', settings.musicPrompt);
+  if (settings.model) query.set('model', settings.model);
+  if (settings.aspectRatio) query.set('aspect', settings.aspectRatio);
+  if (settings.resolution) query.set('res', settings.resolution);
+  if (settings.mode && settings.mode !== GenerationMode.EXTEND_VIDEO) {
+    query.set('mode', settings.mode);
+  }
+  if (settings.isLooping) query.set('loop', '1');
+  if (view === 'result') query.set('view', 'result');
+  const search = query.toString();
+  return `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+};
+
+// Replaces the current entry; used while the form is being edited so typing
+// does not flood the back button.
+export const replaceUrlState = (settings: UrlSettings, view: UrlView) => {
+  const url = buildUrl(settings, view);
+  const {pathname, search, hash} = window.location;
+  if (url !== `${pathname}${search}${hash}`) {
+    window.history.replaceState(null, '', url);
+  }
+};
+
+export const pushUrlState = (settings: UrlSettings, view: UrlView) => {
+  window.history.pushState(null, '', buildUrl(settings, view));
+};
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  BudgetSettings,
+  GenerateVideoParams,
+  UsageRecord,
+  UsageStatus,
+} from '../types';
+import {USAGE_STORE, withStore} from './db';
+import {
+  estimateGenerationCost,
+  formatUsd,
+  getClipSeconds,
+} from './pricing';
+
+// Every submitted render is written to an IndexedDB ledger so spend can be
+// reviewed per day, model and mode, and checked against a monthly budget.
+
+const BUDGET_STORAGE_KEY = 'charchiru.budget';
+
+export type UsageGrouping = 'day' | 'model' | 'mode';
+
+export interface UsageSummaryRow {
+  key: string;
+  renders: number;
+  failed: number;
+  seconds: number;
+  costUsd: number;
+}
+
+export interface BudgetCheck {
+  spentUsd: number;
+  // Set once the soft limit is passed; rendering is still allowed.
+  warning: string | null;
+  // Set when the render would pass the hard limit; rendering is blocked.
+  blocked: string | null;
+}
+
+const listeners = new Set<() => void>();
+
+// Estimates of renders still running, so parallel budget checks count them
+// before their outcome reaches the ledger.
+const reservations = new Map<symbol, number>();
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = async (
+  params: GenerateVideoParams,
+  outcome: {
+    status: UsageStatus;
+    videoCount: number;
+    // What the render is billed; see withUsageRecord in geminiService.
+    costUsd: number;
+    wallClockMs: number;
+    error?: string;
+  },
+): Promise<UsageRecord> => {
+  // Seconds delivered, which can be fewer than were billed.
+  const seconds = outcome.videoCount * getClipSeconds(params);
+  const record: UsageRecord = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    model: params.model,
+    resolution: params.resolution,
+    mode: params.mode,
+    status: outcome.status,
+    seconds,
+    wallClockMs: outcome.wallClockMs,
+    costUsd: outcome.costUsd,
+    error: outcome.error,
+  };
+  await withStore(USAGE_STORE, 'readwrite', (store) => store.put(record));
+  listeners.forEach((listener) => listener());
+  return record;
+};
+
+// Newest first.
+export const listUsage = async (): Promise<UsageRecord[]> => {
+  const records = await withStore<UsageRecord[]>(
+    USAGE_STORE,
+    'readonly',
+    (store) => store.index('createdAt').getAll(),
+  );
+  return records.reverse();
+};
+
+export const clearUsage = async (): Promise<void> => {
+  await withStore(USAGE_STORE, 'readwrite', (store) => store.clear());
+  listeners.forEach((listener) => listener());
+};
+
+const groupKey = (record: UsageRecord, grouping: UsageGrouping) => {
+  switch (grouping) {
+    case 'day':
+      return new Date(record.createdAt).toLocaleDateString();
+    case 'model':
+      return record.model;
+    case 'mode':
+      return record.mode;
+  }
+};
+
+// Rows keep the order records arrive in, so newest-first input gives
+// newest-first days.
+export const summarizeUsage = (
+  records: UsageRecord[],
+  grouping: UsageGrouping,
+): UsageSummaryRow[] => {
+  const rows = new Map<string, UsageSummaryRow>();
+  for (const record of records) {
+    const key = groupKey(record, grouping);
+    const row = rows.get(key) ?? {
+      key,
+      renders: 0,
+      failed: 0,
+      seconds: 0,
+      costUsd: 0,
+    };
+    row.renders += 1;
+    if (record.status === UsageStatus.FAILED) row.failed += 1;
+    row.seconds += record.seconds;
+    row.costUsd += record.costUsd;
+    rows.set(key, row);
+  }
+  return [...rows.values()];
+};
+
+const startOfMonth = (now = new Date()) =>
+  new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export const sumMonthSpend = (records: UsageRecord[]) => {
+  const since = startOfMonth();
+  return records
+    .filter((record) => record.createdAt >= since)
+    .reduce((sum, record) => sum + record.costUsd, 0);
+};
+
+// Holds the render's estimate until the returned release is called, which
+// should be once its outcome is recorded.
+export const reserveUsage = (params: GenerateVideoParams) => {
+  const key = Symbol('reservation');
+  reservations.set(key, estimateGenerationCost(params));
+  listeners.forEach((listener) => listener());
+  return () => {
+    if (reservations.delete(key)) {
+      listeners.forEach((listener) => listener());
+    }
+  };
+};
+
+const sumReservations = () =>
+  [...reservations.values()].reduce((sum, costUsd) => sum + costUsd, 0);
+
+// Includes renders still running. Reservations are read after the ledger,
+// so a check made right after this resolves sees every earlier reservation.
+export const getMonthSpend = async () => {
+  const records = await listUsage();
+  return sumMonthSpend(records) + sumReservations();
+};
+
+export const getBudget = (): BudgetSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) ?? '{}');
+    const limit = (value: unknown) =>
+      typeof value === 'number' && value > 0 ? value : null;
+    return {
+      softLimitUsd: limit(stored?.softLimitUsd),
+      hardLimitUsd: limit(stored?.hardLimitUsd),
+    };
+  } catch {
+    return {softLimitUsd: null, hardLimitUsd: null};
+  }
+};
+
+export const setBudget = (budget: BudgetSettings) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  listeners.forEach((listener) => listener());
+};
+
+// Compares this month's spend plus the render's estimate with the limits.
+export const checkBudget = (
+  spentUsd: number,
+  params: GenerateVideoParams,
+  budget = getBudget(),
+): BudgetCheck => {
+  const projected = spentUsd + estimateGenerationCost(params);
+  const {softLimitUsd, hardLimitUsd} = budget;
+  return {
+    spentUsd,
+    warning:
+      softLimitUsd !== null && projected > softLimitUsd
+        ? `This render takes the month past the ${formatUsd(softLimitUsd)} soft limit.`
+        : null,
+    blocked:
+      hardLimitUsd !== null && projected > hardLimitUsd
+        ? `This render would pass the ${formatUsd(hardLimitUsd)} monthly hard limit.`
+        : null,
+  };
+};
@@ -0,0 +1,348 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Concatenates generated clips in the browser. Each clip is played into a
+// canvas (with its audio routed through Web Audio) and the combined stream is
+// re-encoded by MediaRecorder, so no server or desktop editor is needed.
+// Output is MP4 where the browser can record it and WebM otherwise. Encoding
+// runs in real time: a 30 second sequence takes about 30 seconds at 1x.
+// Frames are drawn on requestAnimationFrame, which browsers pause in
+// background tabs, so the tab must stay in front until it finishes.
+
+export interface AssemblyClip {
+  id: string;
+  label: string;
+  blob: Blob;
+  // Seconds cut from the start and end of the clip.
+  trimStart: number;
+  trimEnd: number;
+}
+
+export interface AssemblyProgress {
+  clipIndex: number;
+  clipCount: number;
+  // 0-1 across the whole sequence.
+  fraction: number;
+}
+
+export interface AssembleOptions {
+  onProgress?: (progress: AssemblyProgress) => void;
+  signal?: AbortSignal;
+  fps?: number;
+  // Speed applied to every clip; 2 halves the output length.
+  playbackRate?: number;
+  // Leaves the audio track out of the output.
+  muted?: boolean;
+  // Width / height to center-crop every clip to; letterboxed when unset.
+  aspectRatio?: number;
+  maxWidth?: number;
+  // Overrides the MP4-first choice of container.
+  mimeType?: string;
+  videoBitsPerSecond?: number;
+}
+
+const OUTPUT_MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm',
+];
+
+const pickSupportedMimeType = (types: string[]) =>
+  types.find(
+    (type) =>
+      typeof MediaRecorder !== 'undefined' &&
+      MediaRecorder.isTypeSupported(type),
+  );
+
+export const pickAssemblyMimeType = () =>
+  pickSupportedMimeType(OUTPUT_MIME_TYPES);
+
+export const pickWebmMimeType = () =>
+  pickSupportedMimeType(
+    OUTPUT_MIME_TYPES.filter((type) => type.startsWith('video/webm')),
+  );
+
+export const fileExtensionForMimeType = (mimeType: string) =>
+  mimeType.startsWith('video/webm') ? 'webm' : 'mp4';
+
+const abortError = () => new DOMException('Assembly cancelled.', 'AbortError');
+
+const waitForEvent = (
+  target: HTMLMediaElement,
+  type: string,
+  signal?: AbortSignal,
+) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(type, onEvent);
+      target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('A clip could not be decoded.'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    target.addEventListener(type, onEvent);
+    target.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+// MediaRecorder output (edited copies, assemblies, mock clips) often has no
+// length in its header, so the element reports Infinity. Seeking past the
+// end makes the browser find the real length; the clip is then rewound.
+export const resolveDuration = async (
+  video: HTMLVideoElement,
+  signal?: AbortSignal,
+): Promise<number> => {
+  if (!Number.isFinite(video.duration)) {
+    const seeked = waitForEvent(video, 'seeked', signal);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+    await seeked;
+    const rewound = waitForEvent(video, 'seeked', signal);
+    video.currentTime = 0;
+    await rewound;
+  }
+  if (!Number.isFinite(video.duration) || video.duration <= 0) {
+    throw new Error('The length of the clip could not be read.');
+  }
+  return video.duration;
+};
+
+// The caller revokes `video.src` once done; a clip that fails to load is
+// revoked here.
+const loadClip = async (clip: AssemblyClip, signal?: AbortSignal) => {
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.playsInline = true;
+  video.src = URL.createObjectURL(clip.blob);
+  try {
+    await waitForEvent(video, 'loadedmetadata', signal);
+    await resolveDuration(video, signal);
+  } catch (error) {
+    URL.revokeObjectURL(video.src);
+    throw error;
+  }
+  return video;
+};
+
+export const getClipDuration = async (blob: Blob): Promise<number> => {
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  const url = URL.createObjectURL(blob);
+  video.src = url;
+  try {
+    await waitForEvent(video, 'loadedmetadata');
+    return await resolveDuration(video);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Output size for a source frame, optionally cropped to `aspectRatio` and
+// scaled down to `maxWidth`. Sizes are kept even for video encoders.
+export const getFrameSize = (
+  sourceWidth: number,
+  sourceHeight: number,
+  aspectRatio?: number,
+  maxWidth?: number,
+) => {
+  let width = sourceWidth;
+  let height = sourceHeight;
+  if (aspectRatio) {
+    if (sourceWidth / sourceHeight > aspectRatio) {
+      width = sourceHeight * aspectRatio;
+    } else {
+      height = sourceWidth / aspectRatio;
+    }
+  }
+  if (maxWidth && width > maxWidth) {
+    height = (height * maxWidth) / width;
+    width = maxWidth;
+  }
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return {width: even(width), height: even(height)};
+};
+
+// Draws the current frame centered on the canvas, cropped to fill it when
+// `cover` is set and letterboxed otherwise.
+export const drawVideoFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  cover = false,
+) => {
+  const {width: canvasWidth, height: canvasHeight} = ctx.canvas;
+  const fit = cover ? Math.max : Math.min;
+  const scale = fit(
+    canvasWidth / video.videoWidth,
+    canvasHeight / video.videoHeight,
+  );
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  ctx.drawImage(
+    video,
+    (canvasWidth - width) / 2,
+    (canvasHeight - height) / 2,
+    width,
+    height,
+  );
+};
+
+const getPlayableRange = (clip: AssemblyClip, duration: number) => {
+  const start = Math.min(Math.max(0, clip.trimStart), duration);
+  const end = Math.max(start, duration - Math.max(0, clip.trimEnd));
+  return {start, end};
+};
+
+export const assembleClips = async (
+  clips: AssemblyClip[],
+  options: AssembleOptions = {},
+): Promise<Blob> => {
+  const {onProgress, signal} = options;
+  const mimeType = options.mimeType ?? pickAssemblyMimeType();
+  if (!mimeType) {
+    throw new Error('This browser cannot record video.');
+  }
+  if (clips.length === 0) {
+    throw new Error('Choose at least one clip.');
+  }
+  signal?.throwIfAborted();
+
+  const videos: HTMLVideoElement[] = [];
+  const audioContext = new AudioContext();
+  try {
+    for (const clip of clips) {
+      videos.push(await loadClip(clip, signal));
+    }
+    const ranges = clips.map((clip, i) =>
+      getPlayableRange(clip, videos[i].duration),
+    );
+    const totalSeconds = ranges.reduce((sum, r) => sum + r.end - r.start, 0);
+    if (totalSeconds <= 0) {
+      throw new Error('The trims leave nothing to export.');
+    }
+
+    // The first clip sets the output size; others are letterboxed into it.
+    const canvas = document.createElement('canvas');
+    const size = getFrameSize(
+      videos[0].videoWidth,
+      videos[0].videoHeight,
+      options.aspectRatio,
+      options.maxWidth,
+    );
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    const cover = options.aspectRatio !== undefined;
+
+    const audioDestination = audioContext.createMediaStreamDestination();
+    for (const video of videos) {
+      if (options.muted) {
+        video.muted = true;
+      } else {
+        audioContext.createMediaElementSource(video).connect(audioDestination);
+      }
+    }
+    const stream = new MediaStream([
+      ...canvas.captureStream(options.fps ?? 30).getVideoTracks(),
+      ...(options.muted ? [] : audioDestination.stream.getAudioTracks()),
+    ]);
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    const drawFrame = (video: HTMLVideoElement) =>
+      drawVideoFrame(ctx, video, cover);
+
+    let doneSeconds = 0;
+    try {
+      for (let i = 0; i < clips.length; i++) {
+        const video = videos[i];
+        const {start, end} = ranges[i];
+        if (end <= start) continue;
+
+        video.currentTime = start;
+        await waitForEvent(video, 'seeked', signal);
+        drawFrame(video);
+        if (recorder.state === 'inactive') {
+          recorder.start(1000);
+        } else {
+          recorder.resume();
+        }
+        await audioContext.resume();
+        video.playbackRate = options.playbackRate ?? 1;
+        await video.play();
+
+        await new Promise<void>((resolve, reject) => {
+          let frameId = 0;
+          const onAbort = () => {
+            cancelAnimationFrame(frameId);
+            reject(abortError());
+          };
+          const tick = () => {
+            drawFrame(video);
+            const played = Math.min(video.currentTime, end) - start;
+            onProgress?.({
+              clipIndex: i,
+              clipCount: clips.length,
+              fraction: Math.min(1, (doneSeconds + played) / totalSeconds),
+            });
+            if (video.ended || video.currentTime >= end) {
+              signal?.removeEventListener('abort', onAbort);
+              resolve();
+              return;
+            }
+            frameId = requestAnimationFrame(tick);
+          };
+          signal?.addEventListener('abort', onAbort, {once: true});
+          frameId = requestAnimationFrame(tick);
+        });
+
+        video.pause();
+        recorder.pause();
+        doneSeconds += end - start;
+      }
+    } finally {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+        await stopped;
+      }
+      stream.getTracks().forEach((track) => track.stop());
+    }
+
+    signal?.throwIfAborted();
+    onProgress?.({
+      clipIndex: clips.length - 1,
+      clipCount: clips.length,
+      fraction: 1,
+    });
+    return new Blob(chunks, {type: mimeType.split(';')[0]});
+  } finally {
+    for (const video of videos) {
+      video.pause();
+      URL.revokeObjectURL(video.src);
+    }
+    audioContext.close();
+  }
+};
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {VideoEdit} from '../types';
+import {AssembleOptions, assembleClips, getClipDuration} from './videoAssembly';
+
+// Trim, speed and mute edits on a finished render. The edit is previewed on
+// the result player and exported by re-encoding the trimmed range through
+// the clip assembler, so the edited copy is a new blob.
+
+export const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Shortest range that can be exported.
+export const MIN_EDIT_SECONDS = 0.25;
+
+export const createEdit = (duration: number): VideoEdit => ({
+  inPoint: 0,
+  outPoint: duration,
+  speed: 1,
+  muted: false,
+});
+
+// Keeps both points inside the clip and at least MIN_EDIT_SECONDS apart.
+export const clampEdit = (edit: VideoEdit, duration: number): VideoEdit => {
+  const minLength = Math.min(MIN_EDIT_SECONDS, duration);
+  const inPoint = Math.min(Math.max(0, edit.inPoint), duration - minLength);
+  const outPoint = Math.min(
+    duration,
+    Math.max(edit.outPoint, inPoint + minLength),
+  );
+  return {...edit, inPoint, outPoint};
+};
+
+export const getEditedDuration = (edit: VideoEdit) =>
+  (edit.outPoint - edit.inPoint) / edit.speed;
+
+export const isUnchangedEdit = (edit: VideoEdit, duration: number) =>
+  edit.inPoint === 0 &&
+  edit.outPoint === duration &&
+  edit.speed === 1 &&
+  !edit.muted;
+
+export const describeEdit = (edit: VideoEdit) =>
+  [
+    `${edit.inPoint.toFixed(2)}s-${edit.outPoint.toFixed(2)}s`,
+    edit.speed !== 1 && `${edit.speed}x`,
+    edit.muted && 'muted',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const renderEdit = async (
+  blob: Blob,
+  edit: VideoEdit,
+  options: Pick<AssembleOptions, 'onProgress' | 'signal'> = {},
+): Promise<Blob> => {
+  const duration = await getClipDuration(blob);
+  const {inPoint, outPoint, speed, muted} = clampEdit(edit, duration);
+  return assembleClips(
+    [
+      {
+        id: 'edit',
+        label: 'Edit',
+        blob,
+        trimStart: inPoint,
+        trimEnd: Math.max(0, duration - outPoint),
+      },
+    ],
+    {...options, playbackRate: speed, muted},
+  );
+};
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {seekVideo} from './frameExtraction';
+import {buildPalette, createGifEncoder} from './gifEncoder';
+import {
+  assembleClips,
+  drawVideoFrame,
+  fileExtensionForMimeType,
+  getClipDuration,
+  getFrameSize,
+  pickAssemblyMimeType,
+  pickWebmMimeType,
+  resolveDuration,
+} from './videoAssembly';
+
+// Converts a render for sharing: re-encoded MP4 or WebM through the clip
+// assembler, or an animated GIF through our own encoder, with optional
+// platform presets for crop and file size. Everything runs in the browser.
+
+export type ExportFormat = 'mp4' | 'webm' | 'gif';
+
+export interface ExportPreset {
+  id: string;
+  label: string;
+  // Width / height to center-crop to.
+  aspectRatio?: number;
+  maxWidth?: number;
+  maxBytes?: number;
+}
+
+export interface GifSettings {
+  fps: number;
+  width: number;
+  colors: number;
+}
+
+export interface ExportRequest {
+  format: ExportFormat;
+  preset: ExportPreset;
+  gif: GifSettings;
+}
+
+export interface ExportOptions {
+  // 0-1 for the current pass; a retry to fit a size limit starts over.
+  onProgress?: (fraction: number, attempt: number) => void;
+  signal?: AbortSignal;
+}
+
+const MB = 1024 * 1024;
+// Retries shrink the output until it fits a size limit.
+const MAX_SIZE_ATTEMPTS = 3;
+const SIZE_RETRY_FACTOR = 0.75;
+const PALETTE_SAMPLE_FRAMES = 8;
+const AUDIO_BITS_PER_SECOND = 128_000;
+
+export const exportPresets: ExportPreset[] = [
+  {id: 'original', label: 'As rendered'},
+  {id: 'square', label: 'Square 1:1 (feed posts)', aspectRatio: 1},
+  {
+    id: 'vertical',
+    label: 'Vertical 9:16 (Shorts, Reels, TikTok)',
+    aspectRatio: 9 / 16,
+    maxWidth: 1080,
+  },
+  {id: 'max-8mb', label: 'Under 8 MB (chat apps)', maxBytes: 8 * MB},
+  {id: 'max-15mb', label: 'Under 15 MB (GIFs on X)', maxBytes: 15 * MB},
+];
+
+export const GIF_FPS_OPTIONS = [8, 10, 12, 15, 24];
+export const GIF_WIDTH_OPTIONS = [240, 320, 480, 640];
+export const GIF_COLOR_OPTIONS = [32, 64, 128, 256];
+
+export const DEFAULT_GIF_SETTINGS: GifSettings = {
+  fps: 12,
+  width: 480,
+  colors: 128,
+};
+
+export const isFormatSupported = (format: ExportFormat) =>
+  format === 'gif' ||
+  !!(format === 'webm' ? pickWebmMimeType() : pickAssemblyMimeType());
+
+export const getExportExtension = (format: ExportFormat, blob: Blob) =>
+  format === 'gif' ? 'gif' : fileExtensionForMimeType(blob.type);
+
+const loadVideo = (blob: Blob) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('The video could not be decoded.'));
+    video.src = URL.createObjectURL(blob);
+  });
+
+// Frames are taken by seeking, so a GIF takes about as long as its frame
+// count rather than the clip's play time.
+const encodeGif = async (
+  blob: Blob,
+  settings: GifSettings,
+  preset: ExportPreset,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const video = await loadVideo(blob);
+  try {
+    const duration = await resolveDuration(video, signal);
+    const {width, height} = getFrameSize(
+      video.videoWidth,
+      video.videoHeight,
+      preset.aspectRatio,
+      Math.min(settings.width, preset.maxWidth ?? Infinity),
+    );
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', {
+      willReadFrequently: true,
+    }) as CanvasRenderingContext2D;
+    const cover = preset.aspectRatio !== undefined;
+    const grab = async (time: number) => {
+      signal?.throwIfAborted();
+      await seekVideo(video, time);
+      drawVideoFrame(ctx, video, cover);
+      return ctx.getImageData(0, 0, width, height).data;
+    };
+
+    const frameCount = Math.max(1, Math.floor(duration * settings.fps));
+    const samples: Uint8ClampedArray[] = [];
+    for (let i = 0; i < PALETTE_SAMPLE_FRAMES; i++) {
+      samples.push(await grab((duration * i) / PALETTE_SAMPLE_FRAMES));
+    }
+    const encoder = createGifEncoder({
+      width,
+      height,
+      palette: buildPalette(samples, settings.colors),
+      loopCount: 0,
+    });
+    for (let i = 0; i < frameCount; i++) {
+      encoder.addFrame(await grab(i / settings.fps), 1000 / settings.fps);
+      onProgress((i + 1) / frameCount);
+    }
+    return encoder.finish();
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+// Leaves headroom for container overhead when aiming for a size limit.
+const getTargetBitrate = (maxBytes: number, seconds: number) =>
+  Math.max(
+    100_000,
+    Math.floor((maxBytes * 8 * 0.9) / seconds) - AUDIO_BITS_PER_SECOND,
+  );
+
+const encodeVideo = async (
+  blob: Blob,
+  format: Exclude<ExportFormat, 'gif'>,
+  preset: ExportPreset,
+  videoBitsPerSecond: number | undefined,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal,
+) => {
+  const mimeType =
+    format === 'webm' ? pickWebmMimeType() : pickAssemblyMimeType();
+  if (!mimeType) {
+    throw new Error(`This browser cannot record ${format.toUpperCase()}.`);
+  }
+  return assembleClips(
+    [{id: 'export', label: 'Export', blob, trimStart: 0, trimEnd: 0}],
+    {
+      mimeType,
+      aspectRatio: preset.aspectRatio,
+      maxWidth: preset.maxWidth,
+      videoBitsPerSecond,
+      signal,
+      onProgress: ({fraction}) => onProgress(fraction),
+    },
+  );
+};
+
+export const exportVideo = async (
+  blob: Blob,
+  request: ExportRequest,
+  options: ExportOptions = {},
+): Promise<Blob> => {
+  const {format, preset} = request;
+  const {signal} = options;
+  signal?.throwIfAborted();
+
+  // An MP4 with nothing to change is the render itself.
+  const needsReencode =
+    preset.aspectRatio !== undefined ||
+    preset.maxWidth !== undefined ||
+    (preset.maxBytes !== undefined && blob.size > preset.maxBytes);
+  if (format === 'mp4' && !needsReencode && blob.type === 'video/mp4') {
+    options.onProgress?.(1, 0);
+    return blob;
+  }
+
+  const seconds = await getClipDuration(blob);
+  let gif = request.gif;
+  let bitrate = preset.maxBytes
+    ? getTargetBitrate(preset.maxBytes, seconds)
+    : undefined;
+  for (let attempt = 0; attempt < MAX_SIZE_ATTEMPTS; attempt++) {
+    const onProgress = (fraction: number) =>
+      options.onProgress?.(fraction, attempt);
+    const output =
+      format === 'gif'
+        ? await encodeGif(blob, gif, preset, onProgress, signal)
+        : await encodeVideo(blob, format, preset, bitrate, onProgress, signal);
+    if (!preset.maxBytes || output.size <= preset.maxBytes) {
+      return output;
+    }
+    gif = {
+      ...gif,
+      width: Math.round(gif.width * SIZE_RETRY_FACTOR),
+      fps: Math.max(6, Math.round(gif.fps * SIZE_RETRY_FACTOR)),
+    };
+    bitrate = Math.floor((bitrate ?? 0) * SIZE_RETRY_FACTOR);
+  }
+  throw new Error(
+    `Could not fit the export under ${Math.round(preset.maxBytes! / MB)} MB. Try a shorter clip or a smaller GIF.`,
+  );
+};
@@ -9,6 +9,12 @@ export enum AppState {
   LOADING,
   SUCCESS,
   ERROR,
+  HISTORY,
+  QUEUE,
+  STORYBOARD,
+  ASSEMBLY,
+  SWEEP,
+  USAGE,
 }
 
 export enum VeoModel {
@@ -34,6 +40,13 @@ export enum GenerationMode {
   EXTEND_VIDEO = 'Extend Video',
 }
 
+// Who may appear in the video; the API restricts this per mode and region.
+export enum PersonGeneration {
+  ALLOW_ALL = 'allow_all',
+  ALLOW_ADULT = 'allow_adult',
+  DONT_ALLOW = 'dont_allow',
+}
+
 export interface ImageFile {
   file: File;
   base64: string;
@@ -44,6 +57,22 @@ export interface VideoFile {
   base64: string;
 }
 
+export interface DialogueLine {
+  speaker: string;
+  line: string;
+}
+
+// Audio cues compiled into the prompt by services/audioDesign.ts. Free-form
+// music notes stay in `musicPrompt`.
+export interface AudioDesign {
+  musicGenre: string;
+  musicMood: string;
+  musicTempo: string;
+  ambience: string;
+  soundEffects: string[];
+  dialogue: DialogueLine[];
+}
+
 export interface GenerateVideoParams {
   prompt: string;
   model: VeoModel;
@@ -59,4 +88,231 @@ export interface GenerateVideoParams {
   inputVideoObject?: Video | null;
   isLooping?: boolean;
   musicPrompt?: string;
-}
\ No newline at end of file
+  audioDesign?: AudioDesign;
+  // How many candidates to render for one request.
+  numberOfVideos?: number;
+  negativePrompt?: string;
+  seed?: number | null;
+  // Keep `seed` on retry instead of rolling a new one.
+  lockSeed?: boolean;
+  durationSeconds?: number;
+  personGeneration?: PersonGeneration;
+  generateAudio?: boolean;
+}
+
+export type TemplateDefaults = Partial<
+  Pick<
+    GenerateVideoParams,
+    'model' | 'aspectRatio' | 'resolution' | 'mode' | 'musicPrompt'
+  >
+>;
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // May contain {variable} placeholders that are filled in before use.
+  prompt: string;
+  tags: string[];
+  defaults: TemplateDefaults;
+  updatedAt: number;
+}
+
+// Trim, speed and audio changes made in the result editor.
+export interface VideoEdit {
+  // Seconds into the source clip.
+  inPoint: number;
+  outPoint: number;
+  speed: number;
+  muted: boolean;
+}
+
+export interface VideoDerivation {
+  // Remote uri of the render the edit was made from.
+  sourceUri: string;
+  edit: VideoEdit;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  params: GenerateVideoParams;
+  blob: Blob;
+  video: Video;
+  uri: string;
+  // Set on edited copies. They exist only locally, so `uri` is empty and
+  // they cannot be extended.
+  derivedFrom?: VideoDerivation;
+}
+
+export interface GeneratedVideo {
+  objectUrl: string;
+  blob: Blob;
+  uri: string;
+  video: Video;
+}
+
+// The first candidate, plus every candidate when more than one was requested.
+export interface GenerateVideoResult extends GeneratedVideo {
+  candidates: GeneratedVideo[];
+}
+
+export enum GenerationPhase {
+  SUBMITTING = 'submitting',
+  SUBMITTED = 'submitted',
+  POLLING = 'polling',
+  OPERATION_DONE = 'operation-done',
+  DOWNLOADING = 'downloading',
+  BLOB_READY = 'blob-ready',
+  RETRYING = 'retrying',
+}
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  // Milliseconds since the request was submitted (or resumed).
+  elapsedMs: number;
+  pollCount?: number;
+  bytesReceived?: number;
+  bytesTotal?: number;
+  // Which candidate is downloading when several were rendered (0-based).
+  candidateIndex?: number;
+  candidateCount?: number;
+  // Set while waiting to retry a step that failed with a transient error.
+  retry?: {
+    step: string;
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+    reason: string;
+  };
+}
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  POLLING = 'polling',
+  DOWNLOADING = 'downloading',
+  DONE = 'done',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface GenerationJob {
+  id: string;
+  params: GenerateVideoParams;
+  operationName?: string;
+  status: JobStatus;
+  submittedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  progress?: GenerationProgress;
+  result?: GenerateVideoResult;
+  error?: string;
+}
+
+export interface PendingOperation {
+  operationName: string;
+  params: GenerateVideoParams;
+  startedAt: number;
+}
+
+export enum ShotStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  DONE = 'done',
+  FAILED = 'failed',
+}
+
+export interface StoryboardShot {
+  id: string;
+  prompt: string;
+  musicPrompt: string;
+  // Starts a new take from this image instead of extending the previous shot.
+  startFrame?: ImageFile | null;
+  status: ShotStatus;
+  progress?: GenerationProgress;
+  result?: GenerateVideoResult;
+  error?: string;
+}
+
+export interface Storyboard {
+  aspectRatio: AspectRatio;
+  shots: StoryboardShot[];
+  isRunning: boolean;
+}
+
+export interface SweepSpec {
+  // May contain {variable} placeholders; each gets a list of values.
+  prompt: string;
+  variableValues: Record<string, string[]>;
+  models: VeoModel[];
+  aspectRatios: AspectRatio[];
+  resolutions: Resolution[];
+  musicPrompts: string[];
+}
+
+export interface SweepLabel {
+  axis: string;
+  value: string;
+}
+
+export interface SweepCell {
+  // Only the axes that vary across the sweep.
+  labels: SweepLabel[];
+  params: GenerateVideoParams;
+  jobId?: string;
+}
+
+export interface Sweep {
+  id: string;
+  createdAt: number;
+  cells: SweepCell[];
+  // Values of the last varying axis, used as the grid's column count.
+  columns: number;
+}
+
+// One suggested rewrite of a prompt, broken into the aspects Veo responds to.
+export interface PromptRewrite {
+  label: string;
+  subject: string;
+  camera: string;
+  lighting: string;
+  style: string;
+  audio: string;
+  // The full rewritten prompt, ready to submit.
+  prompt: string;
+}
+
+// Form inputs a still frame can be sent to.
+export type FrameSlot =
+  | 'inputImage'
+  | 'startFrame'
+  | 'endFrame'
+  | 'referenceImages'
+  | 'styleImage';
+
+export enum UsageStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// One submitted render, as recorded in the usage ledger.
+export interface UsageRecord {
+  id: string;
+  createdAt: number;
+  model: VeoModel;
+  resolution: Resolution;
+  mode: GenerationMode;
+  status: UsageStatus;
+  // Seconds of video delivered, across all candidates.
+  seconds: number;
+  wallClockMs: number;
+  // Priced at the rates in effect when the render finished.
+  costUsd: number;
+  error?: string;
+}
+
+// Monthly spending limits. A soft limit warns; a hard limit blocks renders.
+export interface BudgetSettings {
+  softLimitUsd: number | null;
+  hardLimitUsd: number | null;
+}
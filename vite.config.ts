@@ -4,15 +4,29 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // In proxy mode the key stays on the server and is never bundled.
+    const isProxy = env.VIDEO_PROVIDER === 'proxy';
+    const clientApiKey = isProxy ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: isProxy
+          ? {
+              '/api': `http://${env.PROXY_HOST || '127.0.0.1'}:${env.PROXY_PORT || 8787}`,
+            }
+          : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientApiKey),
+        'process.env.VIDEO_PROVIDER': JSON.stringify(env.VIDEO_PROVIDER),
+        // Not a secret: it ships to every browser that loads the app. See
+        // server/index.ts.
+        'process.env.PROXY_TOKEN': JSON.stringify(isProxy ? env.PROXY_TOKEN : ''),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+        'process.env.MOCK_FAILURE_RATE': JSON.stringify(env.MOCK_FAILURE_RATE)
       },
       resolve: {
         alias: {